@@ -1,18 +1,72 @@
 "use client";
 
-import { useState } from "react";
-import { Upload } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { ClipboardPaste, FolderOpen, Plus, Save, Upload, X } from "lucide-react";
 import dynamic from "next/dynamic";
-import * as XLSX from "xlsx";
-import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
+import { PDFDocument } from "pdf-lib";
 import JSZip from "jszip";
+import type { WorkBook } from "xlsx";
 import { saveAs } from "file-saver";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
 import { toast } from "sonner";
 import TextStyler, { TextStyles } from "@/components/TextStyler";
+import RowStepper from "@/components/RowStepper";
+import WorkbookImportDialog from "@/components/WorkbookImportDialog";
+import PasteDataDialog from "@/components/PasteDataDialog";
+import DataEditor from "@/components/DataEditor";
+import FieldFormatEditor from "@/components/FieldFormatEditor";
+import FieldRulesEditor from "@/components/FieldRulesEditor";
+import ValidationReportDialog from "@/components/ValidationReportDialog";
+import GenerationProgressDialog from "@/components/GenerationProgressDialog";
+import { CustomFont, loadCustomFont } from "@/lib/fonts";
+import { CertificateField, getFieldPage } from "@/lib/fields";
+import { DEFAULT_MIN_FONT_SIZE } from "@/lib/layout";
+import { generateCertificate, getTemplateColumns } from "@/lib/certificate";
+import { DEFAULT_ANCHOR, DEFAULT_LINE_HEIGHT, FieldAnchor } from "@/lib/coordinates";
+import {
+  DATA_FILE_ACCEPT,
+  DataTable,
+  isWorkbookFile,
+  parseDataFile,
+  readWorkbook
+} from "@/lib/data-sources";
+import { CertificateProject, openProject, saveProject } from "@/lib/project";
+import { SavedSession, clearSession, loadSession, saveSession } from "@/lib/session";
+import { ValidationIssue, validateRows } from "@/lib/validation";
+import {
+  OutputSettings,
+  createFileNamer,
+  defaultOutputSettings,
+  getRowLabel
+} from "@/lib/output";
+import { PER_SHEET_OPTIONS, SheetSize } from "@/lib/imposition";
+import {
+  GeneratedCertificate,
+  GenerationProgress,
+  generateInWorkers,
+  mergeInWorker
+} from "@/lib/generation";
 
 const PDFViewer = dynamic(() => import("@/components/PDFViewer"), {
   ssr: false,
@@ -20,60 +74,277 @@ const PDFViewer = dynamic(() => import("@/components/PDFViewer"), {
 
 export default function CertificateEditor() {
   const [pdfFile, setPdfFile] = useState<File | null>(null);
-  const [excelFile, setExcelFile] = useState<File | null>(null);
-  const [fields, setFields] = useState<Array<{
-    id: string;
-    name: string;
-    x: number;
-    y: number;
-    styles?: TextStyles;
-    pdfOffsetX?: number;
-    pdfOffsetY?: number;
-  }>>([]);
+  const [dataSourceName, setDataSourceName] = useState<string | null>(null);
+  const [fields, setFields] = useState<CertificateField[]>([]);
   const [excelData, setExcelData] = useState<any[]>([]);
+  // Rows left out of generation, see lib/selection
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
   const [availableFields, setAvailableFields] = useState<string[]>([]);
   const [selectedFields, setSelectedFields] = useState<string[]>([]);
   const [selectedField, setSelectedField] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([]);
+  const [pageCount, setPageCount] = useState(1);
+  const [currentPage, setCurrentPage] = useState(0);
+  const [previewRow, setPreviewRow] = useState(0);
+  const [exactPreview, setExactPreview] = useState(false);
+  const [previewPdf, setPreviewPdf] = useState<Uint8Array | null>(null);
+  const [pendingSession, setPendingSession] = useState<SavedSession | null>(null);
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [isPasteOpen, setIsPasteOpen] = useState(false);
+  const [mainTab, setMainTab] = useState("preview");
+  const [compositeTemplate, setCompositeTemplate] = useState("");
+  const [staticText, setStaticText] = useState("");
+  const [output, setOutput] = useState<OutputSettings>(defaultOutputSettings);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [generationStartedAt, setGenerationStartedAt] = useState(0);
+  // Certificates kept from a cancelled run until downloaded or discarded
+  const [partialCertificates, setPartialCertificates] = useState<GeneratedCertificate[] | null>(null);
+  const generationRef = useRef<AbortController | null>(null);
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[] | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ workbook: WorkBook; fileName: string } | null>(null);
 
-  const handlePDFUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files?.[0]) {
-      setPdfFile(e.target.files[0]);
+  // Offer to restore the last autosaved session on mount
+  useEffect(() => {
+    loadSession()
+      .then(setPendingSession)
+      .catch((error) => console.error("Error reading saved session:", error))
+      .finally(() => setSessionChecked(true));
+  }, []);
+
+  // Autosave the working session shortly after every change. Nothing is
+  // written until the restore prompt is answered, so an untouched editor
+  // never overwrites the session it is offering to restore.
+  useEffect(() => {
+    if (!sessionChecked || pendingSession || !pdfFile) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const project = await saveProject({
+          template: pdfFile,
+          fields,
+          availableFields,
+          selectedFields,
+          customFonts,
+          output,
+          data: { sourceName: dataSourceName, rows: excelData }
+        });
+        await saveSession(project);
+      } catch (error) {
+        console.error("Error autosaving session:", error);
+      }
+    }, 1000);
+
+    return () => clearTimeout(timeout);
+  }, [
+    sessionChecked,
+    pendingSession,
+    pdfFile,
+    fields,
+    availableFields,
+    selectedFields,
+    customFonts,
+    output,
+    dataSourceName,
+    excelData
+  ]);
+
+  // Render the real pdf-lib output for the previewed row when requested
+  useEffect(() => {
+    const rowData = excelData[previewRow];
+    if (!exactPreview || !pdfFile || !rowData) {
+      setPreviewPdf(null);
+      return;
+    }
+
+    let cancelled = false;
+    const renderPreview = async () => {
+      try {
+        const { pdfDoc } = await generateCertificate(
+          await pdfFile.arrayBuffer(),
+          fields,
+          rowData,
+          customFonts
+        );
+        const bytes = await pdfDoc.save();
+        if (!cancelled) setPreviewPdf(bytes);
+      } catch (error) {
+        console.error("Error rendering preview:", error);
+        toast.error("Error rendering the preview for this row.");
+        if (!cancelled) setExactPreview(false);
+      }
+    };
+
+    renderPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [exactPreview, pdfFile, excelData, previewRow, fields, customFonts]);
+
+  const loadTemplate = async (file: File) => {
+    setPdfFile(file);
+    setCurrentPage(0);
+
+    try {
+      const pdfDoc = await PDFDocument.load(await file.arrayBuffer());
+      setPageCount(pdfDoc.getPageCount());
+    } catch (error) {
+      console.error('Error reading PDF template:', error);
+      setPageCount(1);
     }
   };
 
-  const handleExcelUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handlePDFUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files?.[0]) {
-      const file = e.target.files[0];
-      setExcelFile(file);
-      
-      const reader = new FileReader();
-      reader.onload = async (event) => {
-        try {
-          const data = event.target?.result;
-          const workbook = XLSX.read(data, { type: 'binary' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(worksheet);
-          const headers = XLSX.utils.sheet_to_json(worksheet, { header: 1 })[0] as string[];
-          
-          setExcelData(jsonData);
-          setAvailableFields(headers);
-          setSelectedFields([]);
-          setFields([]);
-        } catch (error) {
-          console.error('Error processing Excel file:', error);
-          toast.error('Error processing Excel file. Please check the format and try again.');
-        }
-      };
-      reader.readAsBinaryString(file);
+      await loadTemplate(e.target.files[0]);
+    }
+  };
+
+  const handleSaveProject = async (includeData: boolean) => {
+    if (!pdfFile) {
+      toast.error("Please upload a PDF template before saving a project");
+      return;
+    }
+
+    try {
+      const blob = await saveProject({
+        template: pdfFile,
+        fields,
+        availableFields,
+        selectedFields,
+        customFonts,
+        output,
+        data: includeData ? { sourceName: dataSourceName, rows: excelData } : undefined
+      });
+      const baseName = pdfFile.name.replace(/\.pdf$/i, '');
+      saveAs(blob, `${baseName}.certificate.zip`);
+    } catch (error) {
+      console.error('Error saving project:', error);
+      toast.error('Error saving project. Please try again.');
+    }
+  };
+
+  const applyProject = async (project: CertificateProject) => {
+    await loadTemplate(project.template);
+    setFields(project.fields);
+    setAvailableFields(project.availableFields);
+    setSelectedFields(project.selectedFields);
+    setSelectedField(null);
+    setCustomFonts(project.customFonts);
+    setOutput(project.output);
+    setPreviewRow(0);
+    setExcludedRows(new Set());
+    if (project.data) {
+      setExcelData(project.data.rows);
+      setDataSourceName(project.data.sourceName);
+    } else {
+      setExcelData([]);
+      setDataSourceName(null);
+    }
+  };
+
+  const handleRestoreSession = async () => {
+    if (!pendingSession) return;
+
+    try {
+      await applyProject(await openProject(new File([pendingSession.project], "session.zip")));
+    } catch (error) {
+      console.error('Error restoring session:', error);
+      toast.error('The saved session could not be restored.');
+    } finally {
+      setPendingSession(null);
+    }
+  };
+
+  const handleDiscardSession = async () => {
+    setPendingSession(null);
+    try {
+      await clearSession();
+    } catch (error) {
+      console.error('Error discarding saved session:', error);
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      await applyProject(await openProject(file));
+      toast.success(`Opened project ${file.name}`);
+    } catch (error) {
+      console.error('Error opening project:', error);
+      toast.error(error instanceof Error ? error.message : 'Error opening project file.');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const commitDataTable = (sourceName: string, { headers, rows }: DataTable) => {
+    setDataSourceName(sourceName);
+    setExcelData(rows);
+    setPreviewRow(0);
+    setExcludedRows(new Set());
+    setAvailableFields(headers);
+    // Keep static text, and fields whose columns are all still there
+    setSelectedFields(current => current.filter(name => headers.includes(name)));
+    setFields(current => current.filter(field => {
+      if (field.template === undefined) return headers.includes(field.name);
+      return field.kind === "text" || getTemplateColumns(field.template).every(column => headers.includes(column));
+    }));
+    // Keep the naming settings, but not a folder column that no longer exists
+    setOutput(current => current.folderColumn && !headers.includes(current.folderColumn)
+      ? { ...current, folderColumn: undefined }
+      : current);
+  };
+
+  // Edits from the Data tab feed straight into preview and generation
+  const handleRowsChange = (rows: Record<string, any>[]) => {
+    setExcelData(rows);
+    setPreviewRow(row => Math.min(row, Math.max(rows.length - 1, 0)));
+  };
+
+  const handleDataUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      // Workbooks go through the import dialog to pick a sheet and header row
+      if (isWorkbookFile(file)) {
+        setPendingWorkbook({ workbook: await readWorkbook(file), fileName: file.name });
+      } else {
+        commitDataTable(file.name, await parseDataFile(file));
+      }
+    } catch (error) {
+      console.error('Error processing data file:', error);
+      toast.error('Error processing data file. Please check the format and try again.');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (!files.length) return;
+
+    try {
+      const loaded = await Promise.all(files.map(loadCustomFont));
+      setCustomFonts(prev => [
+        ...prev.filter(f => !loaded.some(l => l.id === f.id)),
+        ...loaded
+      ]);
+    } catch (error) {
+      console.error('Error loading font file:', error);
+      toast.error('Error loading font file. Please upload a valid TTF or OTF font.');
+    } finally {
+      e.target.value = '';
     }
   };
 
   const handleFieldSelection = (fieldName: string) => {
     if (selectedFields.includes(fieldName)) {
       setSelectedFields(selectedFields.filter(f => f !== fieldName));
-      setFields(fields.filter(f => f.name !== fieldName));
+      setFields(fields.filter(f => f.id !== `field-${fieldName}`));
     } else {
       setSelectedFields([...selectedFields, fieldName]);
       const index = fields.length;
@@ -81,11 +352,46 @@ export default function CertificateEditor() {
         id: `field-${fieldName}`,
         name: fieldName,
         x: 100,
-        y: 100 + (index * 50)
+        y: 100 + (index * 50),
+        page: currentPage
       }]);
     }
   };
 
+  // Template fields aren't tied to a single column. Static text keeps its
+  // template verbatim, so it is the same on every row.
+  const addTemplateField = (kind: "composite" | "text", template: string) => {
+    const index = fields.length;
+    setFields([...fields, {
+      id: `field-${kind}-${Date.now()}`,
+      name: template,
+      template,
+      kind: kind === "text" ? "text" : undefined,
+      x: 100,
+      y: 100 + (index * 50),
+      page: currentPage
+    }]);
+  };
+
+  const handleAddCompositeField = () => {
+    const template = compositeTemplate.trim();
+    if (!template) return;
+    addTemplateField("composite", template);
+    setCompositeTemplate('');
+  };
+
+  const handleAddStaticField = () => {
+    const text = staticText.trim();
+    if (!text) return;
+    addTemplateField("text", text);
+    setStaticText('');
+  };
+
+  const handleRemoveField = (id: string) => {
+    setFields(fields.filter(field => field.id !== id));
+    if (selectedField === id) setSelectedField(null);
+  };
+
   const handleFieldPositionUpdate = (id: string, x: number, y: number) => {
     setFields(fields.map(field => 
       field.id === id ? { ...field, x, y } : field
@@ -98,141 +404,272 @@ export default function CertificateEditor() {
     ));
   };
 
+  const handleFieldUpdate = (id: string, changes: Partial<CertificateField>) => {
+    setFields(fields.map(field =>
+      field.id === id ? { ...field, ...changes } : field
+    ));
+  };
+
+  // Indices of the rows to generate, in data order
+  const rowsToGenerate = excelData
+    .map((_, index) => index)
+    .filter(index => !excludedRows.has(index));
+
+  // Check the selected rows first and only generate straight away when
+  // nothing is wrong; otherwise the report lets the user decide
   const handleProcessCertificates = async () => {
     if (!pdfFile || !excelData.length || !fields.length) {
       toast.error("Please upload a PDF template and Excel data, and add fields");
       return;
     }
-  
+    if (!rowsToGenerate.length) {
+      toast.error("No rows are selected for generation");
+      return;
+    }
+
     try {
       setIsProcessing(true);
-      // Show loading toast
-      toast.loading("Processing certificates...");
-      
-      // Read the PDF template
-      const pdfBytes = await pdfFile.arrayBuffer();
-      
-      // Create a ZIP file
-      const zip = new JSZip();
-      
-      // Process each row in the Excel data
-      for (let i = 0; i < excelData.length; i++) {
-        const rowData = excelData[i];
-        
-        // Clone the PDF for each row
-        const pdfDoc = await PDFDocument.load(pdfBytes);
-        const pages = pdfDoc.getPages();
-        const firstPage = pages[0];
-        const { width, height } = firstPage.getSize();
-        
-        // Add each field to the PDF
-        for (const field of fields) {
-          // Get the value from Excel data
-          const value = rowData[field.name] !== undefined ? String(rowData[field.name]) : "";
-          
-          // Skip if no value
-          if (!value) continue;
-          
-          // Calculate the adjusted position
-          // This is based on the field's position in the PDF viewer
-          const fontSize = field.styles?.fontSize || 16;
-          
-          // Get base field positions
-          const baseX = field.x;
-          const baseY = field.y;
-          
-          // Apply any manual offsets defined in the UI
-          const pdfOffsetX = field.pdfOffsetX || 0;
-          const pdfOffsetY = field.pdfOffsetY || 0;
-          
-          // Final position calculation - critical fix here!
-          // PDF coordinates: origin at bottom-left, Y-axis goes up
-          // UI coordinates: origin at top-left, Y-axis goes down
-          const adjustedX = baseX + pdfOffsetX;
-          
-          // The key fix: properly invert the Y coordinate based on PDF height
-          const adjustedY = height - baseY + pdfOffsetY -50;
-          
-          // Set text styling
-          let font;
-          if (field.styles?.fontFamily === "Times New Roman") {
-            font = await pdfDoc.embedFont(StandardFonts.TimesRoman);
-          } else if (field.styles?.fontFamily === "Courier New") {
-            font = await pdfDoc.embedFont(StandardFonts.Courier);
-          } else {
-            // Default to Helvetica for other fonts since PDF standard fonts are limited
-            font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-          }
-          
-          // Parse color from hex to RGB
-          let color = { r: 0, g: 0, b: 0 }; // Default black
-          if (field.styles?.color) {
-            const hex = field.styles.color.replace('#', '');
-            color = {
-              r: parseInt(hex.substring(0, 2), 16) / 255,
-              g: parseInt(hex.substring(2, 4), 16) / 255,
-              b: parseInt(hex.substring(4, 6), 16) / 255
-            };
-          }
-          
-          // Add text to PDF with proper alignment
-          const textAlignment = field.styles?.textAlign || 'left';
-          let textOptions = {
-            x: adjustedX,
-            y: adjustedY,
-            size: fontSize,
-            font,
-            color: rgb(color.r, color.g, color.b)
-          };
-          
-          // Handle text alignment
-          if (textAlignment === 'center') {
-            const textWidth = font.widthOfTextAtSize(value, fontSize);
-            textOptions.x = adjustedX - (textWidth / 2);
-          } else if (textAlignment === 'right') {
-            const textWidth = font.widthOfTextAtSize(value, fontSize);
-            textOptions.x = adjustedX - textWidth;
-          }
-          
-          // Add text to PDF
-          firstPage.drawText(value, textOptions);
-        }
-        
-        // Save the modified PDF
-        const modifiedPdfBytes = await pdfDoc.save();
-        
-        // Add to ZIP file
-        const fileName = `certificate_${i + 1}.pdf`;
-        zip.file(fileName, modifiedPdfBytes);
+      const issues = await validateRows(
+        await pdfFile.arrayBuffer(),
+        fields,
+        excelData,
+        rowsToGenerate,
+        customFonts
+      );
+      if (issues.length) {
+        setValidationIssues(issues);
+        setIsProcessing(false);
+        return;
       }
-      
+    } catch (error) {
+      console.error("Error validating data:", error);
+      toast.error("Error checking the data. Please try again.");
+      setIsProcessing(false);
+      return;
+    }
+
+    await generateCertificates();
+  };
+
+  // Download generated certificates as a zip or a merged PDF, depending on
+  // the output settings
+  const packageCertificates = async (certificates: GeneratedCertificate[]) => {
+    // Values that still overflow their box at the minimum font size
+    const overflows = certificates.flatMap(certificate =>
+      certificate.overflows.map(field => ({ row: certificate.row + 1, field }))
+    );
+
+    if (output.mode === "merged") {
+      const mergedBytes = await mergeInWorker(
+        certificates.map(certificate => ({
+          bytes: certificate.bytes,
+          title: getRowLabel(output, excelData[certificate.row], certificate.row) || `Row ${certificate.row + 1}`
+        })),
+        {
+          separatorPages: !!output.separatorPages,
+          bookmarks: !!output.bookmarks,
+          imposition: output.imposition
+        }
+      );
+      saveAs(new Blob([mergedBytes], { type: "application/pdf" }), "certificates.pdf");
+    } else {
+      // Add each PDF to a ZIP file, named by the output settings
+      const zip = new JSZip();
+      const getFileName = createFileNamer(output);
+      certificates.forEach(certificate => {
+        zip.file(getFileName(excelData[certificate.row], certificate.row), certificate.bytes);
+      });
+
       // Generate the ZIP file
       const zipBlob = await zip.generateAsync({ type: "blob" });
-      
+
       // Create a download link
       saveAs(zipBlob, "certificates.zip");
+    }
+
+    if (overflows.length) {
+      const rows = overflows.map(o => `row ${o.row} (${o.field})`).join(", ");
+      toast.warning(`${overflows.length} values did not fit their box: ${rows}`);
+    }
+  };
+
+  const generateCertificates = async () => {
+    if (!pdfFile) return;
+
+    const controller = new AbortController();
+    generationRef.current = controller;
+    // Show loading toast until the run ends
+    const toastId = toast.loading("Processing certificates...");
+
+    try {
+      setIsProcessing(true);
+      setProgress({ done: 0, total: rowsToGenerate.length, row: -1 });
+      setGenerationStartedAt(Date.now());
+
+      // Fill the selected rows in background workers, which get the
+      // template, layout and fonts once
+      const { certificates, cancelled } = await generateInWorkers(
+        { templateBytes: await pdfFile.arrayBuffer(), fields, customFonts },
+        rowsToGenerate.map(index => ({ index, data: excelData[index] })),
+        setProgress,
+        controller.signal
+      );
+
+      // Keep what was done so the user can still download it
+      if (cancelled) {
+        toast.dismiss(toastId);
+        setPartialCertificates(certificates);
+        return;
+      }
+
+      await packageCertificates(certificates);
+      setProgress(null);
       
       // Show success toast
-      toast.success(`Generated ${excelData.length} certificates successfully!`);
+      toast.success(`Generated ${certificates.length} certificates successfully!`, { id: toastId });
     } catch (error) {
       console.error("Error processing certificates:", error);
-      toast.error("Error processing certificates. Please try again.");
+      setProgress(null);
+      toast.error("Error processing certificates. Please try again.", { id: toastId });
     } finally {
+      generationRef.current = null;
       setIsProcessing(false);
     }
   };
 
+  const handleDownloadPartial = async () => {
+    const certificates = partialCertificates;
+    if (!certificates) return;
+
+    // Show the dialog's packaging state while the download is prepared
+    setPartialCertificates(null);
+    setProgress({ done: certificates.length, total: certificates.length, row: -1 });
+
+    try {
+      setIsProcessing(true);
+      await packageCertificates(certificates);
+      toast.success(`Downloaded ${certificates.length} certificates`);
+    } catch (error) {
+      console.error("Error packaging certificates:", error);
+      toast.error("Error preparing the download. Please try again.");
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  };
+
+  const handleDiscardPartial = () => {
+    setPartialCertificates(null);
+    setProgress(null);
+  };
+
   return (
     <div className="min-h-screen bg-background">
+      <AlertDialog open={!!pendingSession}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore previous session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              An unsaved session from {pendingSession && new Date(pendingSession.savedAt).toLocaleString()} was
+              found. Restore its template, data and field layout, or discard it and start fresh.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleDiscardSession}>Discard</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestoreSession}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <WorkbookImportDialog
+        workbook={pendingWorkbook?.workbook || null}
+        fileName={pendingWorkbook?.fileName || ""}
+        onCancel={() => setPendingWorkbook(null)}
+        onImport={(table) => {
+          commitDataTable(pendingWorkbook!.fileName, table);
+          setPendingWorkbook(null);
+        }}
+      />
+
+      <PasteDataDialog
+        open={isPasteOpen}
+        onOpenChange={setIsPasteOpen}
+        onImport={(table) => {
+          commitDataTable("Pasted data", table);
+          setIsPasteOpen(false);
+        }}
+      />
+
+      <GenerationProgressDialog
+        open={!!progress}
+        progress={progress}
+        startedAt={generationStartedAt}
+        currentRecipient={progress && progress.row >= 0
+          ? getRowLabel(output, excelData[progress.row] || {}, progress.row)
+          : undefined}
+        partialCount={partialCertificates ? partialCertificates.length : null}
+        onCancel={() => generationRef.current?.abort()}
+        onDownloadPartial={handleDownloadPartial}
+        onDiscardPartial={handleDiscardPartial}
+      />
+
+      <ValidationReportDialog
+        issues={validationIssues}
+        onCancel={() => setValidationIssues(null)}
+        onContinue={() => {
+          setValidationIssues(null);
+          generateCertificates();
+        }}
+      />
+
       <header className="border-b">
         <div className="container mx-auto px-4 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold">Certificate Editor</h1>
-          <Button 
-            onClick={handleProcessCertificates}
-            disabled={!pdfFile || !excelData.length || !fields.length || isProcessing}
-          >
-            {isProcessing ? "Processing..." : "Process Certificates"}
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => document.getElementById("project-upload")?.click()}
+            >
+              <FolderOpen className="w-4 h-4 mr-2" />
+              Open Project
+            </Button>
+            <input
+              id="project-upload"
+              type="file"
+              accept=".zip"
+              className="hidden"
+              onChange={handleOpenProject}
+            />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={!pdfFile}>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Project
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleSaveProject(false)}>
+                  Layout only
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={!excelData.length}
+                  onClick={() => handleSaveProject(true)}
+                >
+                  Layout and data
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button 
+              onClick={handleProcessCertificates}
+              disabled={!pdfFile || !rowsToGenerate.length || !fields.length || isProcessing}
+            >
+              {isProcessing
+                ? progress ? `Processing ${progress.done} of ${progress.total}...` : "Processing..."
+                : rowsToGenerate.length < excelData.length
+                  ? `Process ${rowsToGenerate.length} of ${excelData.length}`
+                  : "Process Certificates"}
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -244,6 +681,7 @@ export default function CertificateEditor() {
                 <TabsTrigger value="template" className="flex-1">Template</TabsTrigger>
                 <TabsTrigger value="fields" className="flex-1">Fields</TabsTrigger>
                 <TabsTrigger value="styling" className="flex-1">Styling</TabsTrigger>
+                <TabsTrigger value="output" className="flex-1">Output</TabsTrigger>
               </TabsList>
               <TabsContent value="template">
                 <Card className="p-4">
@@ -276,24 +714,64 @@ export default function CertificateEditor() {
                       <Button
                         variant="outline"
                         className="w-full"
-                        onClick={() => document.getElementById("excel-upload")?.click()}
+                        onClick={() => document.getElementById("data-upload")?.click()}
                       >
                         <Upload className="w-4 h-4 mr-2" />
-                        Upload Excel
+                        Upload Data
+                      </Button>
+                      <Button
+                        variant="outline"
+                        className="w-full mt-2"
+                        onClick={() => setIsPasteOpen(true)}
+                      >
+                        <ClipboardPaste className="w-4 h-4 mr-2" />
+                        Paste Data
                       </Button>
                       <input
-                        id="excel-upload"
+                        id="data-upload"
                         type="file"
-                        accept=".xlsx,.xls"
+                        accept={DATA_FILE_ACCEPT}
                         className="hidden"
-                        onChange={handleExcelUpload}
+                        onChange={handleDataUpload}
                       />
-                      {excelFile && (
+                      {dataSourceName && (
                         <p className="mt-2 text-sm text-muted-foreground">
-                          Uploaded: {excelFile.name} ({excelData.length} rows)
+                          Uploaded: {dataSourceName} ({excelData.length} rows)
                         </p>
                       )}
                     </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-2">Custom Fonts</label>
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => document.getElementById("font-upload")?.click()}
+                      >
+                        <Upload className="w-4 h-4 mr-2" />
+                        Upload Fonts
+                      </Button>
+                      <input
+                        id="font-upload"
+                        type="file"
+                        accept=".ttf,.otf"
+                        multiple
+                        className="hidden"
+                        onChange={handleFontUpload}
+                      />
+                      {customFonts.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {customFonts.map((font) => (
+                            <li
+                              key={font.id}
+                              className="text-sm text-muted-foreground"
+                              style={{ fontFamily: font.family }}
+                            >
+                              {font.family} ({font.fileName})
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
                   </div>
                 </Card>
               </TabsContent>
@@ -320,25 +798,92 @@ export default function CertificateEditor() {
                             </li>
                           ))}
                         </ul>
-                        
-                        {selectedFields.length > 0 && (
-                          <>
-                            <h3 className="text-sm font-medium mt-4">Selected Fields</h3>
-                            <ul className="space-y-2">
-                              {fields.map((field) => (
-                                <li key={field.id} className="p-2 bg-secondary rounded-md">
-                                  {field.name} ({Math.round(field.x)}, {Math.round(field.y)})
-                                </li>
+
+                        <h3 className="text-sm font-medium mt-4">Composite Field</h3>
+                        <div className="space-y-2">
+                          <Input
+                            placeholder="{Title} {First Name} {Last Name}"
+                            value={compositeTemplate}
+                            onChange={(e) => setCompositeTemplate(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleAddCompositeField();
+                            }}
+                          />
+                          <div className="flex gap-2">
+                            <select
+                              className="flex-1 min-w-0 p-2 border rounded-md text-sm"
+                              value=""
+                              onChange={(e) => setCompositeTemplate(
+                                `${compositeTemplate}{${e.target.value}}`
+                              )}
+                            >
+                              <option value="">Insert column...</option>
+                              {availableFields.map((field) => (
+                                <option key={field} value={field}>{field}</option>
                               ))}
-                            </ul>
-                          </>
-                        )}
+                            </select>
+                            <Button
+                              variant="outline"
+                              disabled={!compositeTemplate.trim()}
+                              onClick={handleAddCompositeField}
+                            >
+                              <Plus className="w-4 h-4 mr-2" />
+                              Add
+                            </Button>
+                          </div>
+                        </div>
                       </>
                     ) : (
                       <p className="text-sm text-muted-foreground">
-                        Upload an Excel file to see available fields
+                        Upload a data file to see available fields
                       </p>
                     )}
+
+                    <h3 className="text-sm font-medium mt-4">Static Text</h3>
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Certificate of Completion"
+                        value={staticText}
+                        onChange={(e) => setStaticText(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleAddStaticField();
+                        }}
+                      />
+                      <Button
+                        variant="outline"
+                        disabled={!staticText.trim()}
+                        onClick={handleAddStaticField}
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add
+                      </Button>
+                    </div>
+
+                    {fields.length > 0 && (
+                      <>
+                        <h3 className="text-sm font-medium mt-4">Selected Fields</h3>
+                        <ul className="space-y-2">
+                          {fields.map((field) => (
+                            <li key={field.id} className="flex items-center gap-2 p-2 bg-secondary rounded-md">
+                              <span className="flex-1 min-w-0 break-words">
+                                {field.name} ({Math.round(field.x)}, {Math.round(field.y)})
+                                {pageCount > 1 && ` · page ${getFieldPage(field, pageCount) + 1}`}
+                              </span>
+                              {field.template !== undefined && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6 shrink-0"
+                                  onClick={() => handleRemoveField(field.id)}
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
                   </div>
                 </Card>
               </TabsContent>
@@ -367,40 +912,190 @@ export default function CertificateEditor() {
                         
                         {selectedField && (
                           <>
+                            {fields.find(f => f.id === selectedField)?.template !== undefined && (
+                              <div className="mb-4">
+                                <label className="block text-sm font-medium mb-2">Content</label>
+                                <Input
+                                  value={fields.find(f => f.id === selectedField)?.template}
+                                  onChange={(e) => handleFieldUpdate(selectedField, {
+                                    name: e.target.value,
+                                    template: e.target.value
+                                  })}
+                                />
+                              </div>
+                            )}
                             <TextStyler 
                               initialStyles={fields.find(f => f.id === selectedField)?.styles}
+                              customFonts={Array.from(new Set(customFonts.map(f => f.family)))}
                               onStyleChange={(styles) => handleFieldStyleUpdate(selectedField, styles)}
                             />
+
+                            <div className="mt-4">
+                              <h4 className="text-sm font-medium mb-2">Format</h4>
+                              <FieldFormatEditor
+                                format={fields.find(f => f.id === selectedField)?.format}
+                                onChange={(format) => handleFieldUpdate(selectedField, { format })}
+                              />
+                            </div>
+
+                            <div className="mt-4">
+                              <h4 className="text-sm font-medium mb-2">Rules</h4>
+                              <FieldRulesEditor
+                                field={fields.find(f => f.id === selectedField)!}
+                                columns={availableFields}
+                                onChange={(updates) => handleFieldUpdate(selectedField, updates)}
+                              />
+                            </div>
+
+                            <div className="mt-4">
+                              <h4 className="text-sm font-medium mb-2">Validation</h4>
+                              <div className="space-y-2">
+                                <div className="flex items-center">
+                                  <Checkbox
+                                    id="field-required"
+                                    checked={!!fields.find(f => f.id === selectedField)?.required}
+                                    onCheckedChange={(checked) => handleFieldUpdate(selectedField, {
+                                      required: checked === true || undefined
+                                    })}
+                                  />
+                                  <label htmlFor="field-required" className="ml-2 text-sm cursor-pointer">
+                                    Required on every row
+                                  </label>
+                                </div>
+                                <div className="flex items-center">
+                                  <Checkbox
+                                    id="field-unique"
+                                    checked={!!fields.find(f => f.id === selectedField)?.unique}
+                                    onCheckedChange={(checked) => handleFieldUpdate(selectedField, {
+                                      unique: checked === true || undefined
+                                    })}
+                                  />
+                                  <label htmlFor="field-unique" className="ml-2 text-sm cursor-pointer">
+                                    Values must be unique, e.g. IDs
+                                  </label>
+                                </div>
+                              </div>
+                            </div>
                             
+                            {pageCount > 1 && (
+                              <div className="mt-4">
+                                <h4 className="text-sm font-medium mb-2">Page</h4>
+                                <select
+                                  className="w-full p-2 border rounded-md"
+                                  value={getFieldPage(fields.find(f => f.id === selectedField) || {}, pageCount)}
+                                  onChange={(e) => handleFieldUpdate(selectedField, {
+                                    page: parseInt(e.target.value)
+                                  })}
+                                >
+                                  {Array.from({ length: pageCount }, (_, index) => (
+                                    <option key={index} value={index}>
+                                      Page {index + 1}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                            )}
+
+                            <div className="mt-4">
+                              <h4 className="text-sm font-medium mb-2">Anchor Point</h4>
+                              <select
+                                className="w-full p-2 border rounded-md"
+                                value={fields.find(f => f.id === selectedField)?.anchor || DEFAULT_ANCHOR}
+                                onChange={(e) => handleFieldUpdate(selectedField, {
+                                  anchor: e.target.value as FieldAnchor
+                                })}
+                              >
+                                <option value="top-left">Top-left corner</option>
+                                <option value="baseline">Baseline</option>
+                                <option value="center">Center</option>
+                              </select>
+                            </div>
+
+                            <div className="mt-4">
+                              <h4 className="text-sm font-medium mb-2">Text Mode</h4>
+                              <select
+                                className="w-full p-2 border rounded-md"
+                                value={fields.find(f => f.id === selectedField)?.mode || 'single'}
+                                onChange={(e) => handleFieldUpdate(selectedField, {
+                                  mode: e.target.value as CertificateField["mode"]
+                                })}
+                              >
+                                <option value="single">Single line</option>
+                                <option value="paragraph">Paragraph</option>
+                              </select>
+                              {fields.find(f => f.id === selectedField)?.mode === 'paragraph' && (
+                                <div className="grid grid-cols-2 gap-4 mt-2">
+                                  <div>
+                                    <label className="text-xs">Line Height</label>
+                                    <input
+                                      type="number"
+                                      min={0.5}
+                                      step={0.1}
+                                      className="w-full p-2 border rounded-md"
+                                      placeholder={String(DEFAULT_LINE_HEIGHT)}
+                                      value={fields.find(f => f.id === selectedField)?.lineHeight ?? ''}
+                                      onChange={(e) => handleFieldUpdate(selectedField, {
+                                        lineHeight: parseFloat(e.target.value) || undefined
+                                      })}
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="text-xs">Wrap</label>
+                                    <select
+                                      className="w-full p-2 border rounded-md"
+                                      value={fields.find(f => f.id === selectedField)?.wrap || 'word'}
+                                      onChange={(e) => handleFieldUpdate(selectedField, {
+                                        wrap: e.target.value as CertificateField["wrap"]
+                                      })}
+                                    >
+                                      <option value="word">Between words</option>
+                                      <option value="anywhere">Break long words</option>
+                                    </select>
+                                  </div>
+                                </div>
+                              )}
+                            </div>
+
                             <div className="mt-4">
-                              <h4 className="text-sm font-medium mb-2">Fine-tune PDF Position</h4>
-                              <div className="grid grid-cols-2 gap-4">
+                              <h4 className="text-sm font-medium mb-2">Fit to Box</h4>
+                              <div className="grid grid-cols-3 gap-2">
                                 <div>
-                                  <label className="text-xs">X Offset</label>
-                                  <input 
-                                    type="number" 
+                                  <label className="text-xs">
+                                    {fields.find(f => f.id === selectedField)?.mode === 'paragraph' ? 'Box Width' : 'Max Width'}
+                                  </label>
+                                  <input
+                                    type="number"
+                                    min={0}
                                     className="w-full p-2 border rounded-md"
-                                    value={fields.find(f => f.id === selectedField)?.pdfOffsetX || 0}
-                                    onChange={(e) => {
-                                      const offset = parseInt(e.target.value) || 0;
-                                      setFields(fields.map(field => 
-                                        field.id === selectedField ? { ...field, pdfOffsetX: offset } : field
-                                      ));
-                                    }}
+                                    value={fields.find(f => f.id === selectedField)?.maxWidth ?? ''}
+                                    onChange={(e) => handleFieldUpdate(selectedField, {
+                                      maxWidth: parseFloat(e.target.value) || undefined
+                                    })}
                                   />
                                 </div>
                                 <div>
-                                  <label className="text-xs">Y Offset</label>
-                                  <input 
-                                    type="number" 
+                                  <label className="text-xs">Max Height</label>
+                                  <input
+                                    type="number"
+                                    min={0}
                                     className="w-full p-2 border rounded-md"
-                                    value={fields.find(f => f.id === selectedField)?.pdfOffsetY || 0}
-                                    onChange={(e) => {
-                                      const offset = parseInt(e.target.value) || 0;
-                                      setFields(fields.map(field => 
-                                        field.id === selectedField ? { ...field, pdfOffsetY: offset } : field
-                                      ));
-                                    }}
+                                    value={fields.find(f => f.id === selectedField)?.maxHeight ?? ''}
+                                    onChange={(e) => handleFieldUpdate(selectedField, {
+                                      maxHeight: parseFloat(e.target.value) || undefined
+                                    })}
+                                  />
+                                </div>
+                                <div>
+                                  <label className="text-xs">Min Size</label>
+                                  <input
+                                    type="number"
+                                    min={1}
+                                    className="w-full p-2 border rounded-md"
+                                    placeholder={String(DEFAULT_MIN_FONT_SIZE)}
+                                    value={fields.find(f => f.id === selectedField)?.minFontSize ?? ''}
+                                    onChange={(e) => handleFieldUpdate(selectedField, {
+                                      minFontSize: parseFloat(e.target.value) || undefined
+                                    })}
                                   />
                                 </div>
                               </div>
@@ -416,26 +1111,267 @@ export default function CertificateEditor() {
                   </div>
                 </Card>
               </TabsContent>
+              <TabsContent value="output">
+                <Card className="p-4">
+                  <div className="space-y-4">
+                    <h3 className="text-sm font-medium">Output</h3>
+                    <div className="space-y-2">
+                      <select
+                        className="w-full p-2 border rounded-md"
+                        value={output.mode || 'zip'}
+                        onChange={(e) => setOutput({
+                          ...output,
+                          mode: e.target.value as OutputSettings["mode"]
+                        })}
+                      >
+                        <option value="zip">Zip of separate PDFs</option>
+                        <option value="merged">Single merged PDF</option>
+                      </select>
+                      {output.mode === 'merged' && (
+                        <>
+                          {!output.imposition && (
+                            <div className="flex items-center">
+                              <Checkbox
+                                id="output-separators"
+                                checked={!!output.separatorPages}
+                                onCheckedChange={(checked) => setOutput({
+                                  ...output,
+                                  separatorPages: checked === true
+                                })}
+                              />
+                              <label htmlFor="output-separators" className="ml-2 text-sm cursor-pointer">
+                                Blank page between certificates
+                              </label>
+                            </div>
+                          )}
+                          <div className="flex items-center">
+                            <Checkbox
+                              id="output-bookmarks"
+                              checked={!!output.bookmarks}
+                              onCheckedChange={(checked) => setOutput({
+                                ...output,
+                                bookmarks: checked === true
+                              })}
+                            />
+                            <label htmlFor="output-bookmarks" className="ml-2 text-sm cursor-pointer">
+                              Bookmark for each recipient
+                            </label>
+                          </div>
+                        </>
+                      )}
+                    </div>
+
+                    {output.mode === 'merged' && (
+                      <>
+                        <h3 className="text-sm font-medium">Print Sheets</h3>
+                        <div className="space-y-2">
+                          <div className="grid grid-cols-2 gap-2">
+                            <div>
+                              <label className="text-xs">Per Sheet</label>
+                              <select
+                                className="w-full p-2 border rounded-md"
+                                value={output.imposition?.perSheet || 1}
+                                onChange={(e) => {
+                                  const perSheet = parseInt(e.target.value);
+                                  setOutput({
+                                    ...output,
+                                    imposition: perSheet > 1
+                                      ? {
+                                        sheetSize: 'A4',
+                                        cropMarks: true,
+                                        bleed: 0,
+                                        ...output.imposition,
+                                        perSheet
+                                      }
+                                      : undefined
+                                  });
+                                }}
+                              >
+                                <option value={1}>1 (no imposition)</option>
+                                {PER_SHEET_OPTIONS.map((count) => (
+                                  <option key={count} value={count}>{count}</option>
+                                ))}
+                              </select>
+                            </div>
+                            {output.imposition && (
+                              <div>
+                                <label className="text-xs">Sheet Size</label>
+                                <select
+                                  className="w-full p-2 border rounded-md"
+                                  value={output.imposition.sheetSize}
+                                  onChange={(e) => setOutput({
+                                    ...output,
+                                    imposition: { ...output.imposition!, sheetSize: e.target.value as SheetSize }
+                                  })}
+                                >
+                                  <option value="A4">A4</option>
+                                  <option value="Letter">Letter</option>
+                                </select>
+                              </div>
+                            )}
+                          </div>
+                          {output.imposition && (
+                            <div className="grid grid-cols-2 gap-2 items-end">
+                              <div>
+                                <label className="text-xs">Bleed (mm)</label>
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step={0.5}
+                                  className="w-full p-2 border rounded-md"
+                                  value={output.imposition.bleed}
+                                  onChange={(e) => setOutput({
+                                    ...output,
+                                    imposition: {
+                                      ...output.imposition!,
+                                      bleed: Math.max(parseFloat(e.target.value) || 0, 0)
+                                    }
+                                  })}
+                                />
+                              </div>
+                              <div className="flex items-center h-10">
+                                <Checkbox
+                                  id="output-crop-marks"
+                                  checked={output.imposition.cropMarks}
+                                  onCheckedChange={(checked) => setOutput({
+                                    ...output,
+                                    imposition: { ...output.imposition!, cropMarks: checked === true }
+                                  })}
+                                />
+                                <label htmlFor="output-crop-marks" className="ml-2 text-sm cursor-pointer">
+                                  Crop marks
+                                </label>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      </>
+                    )}
+
+                    <h3 className="text-sm font-medium">
+                      {output.mode === 'merged' ? 'Bookmark Titles' : 'File Names'}
+                    </h3>
+                    <div className="space-y-2">
+                      <label className="text-xs">Name Pattern</label>
+                      <Input
+                        placeholder={defaultOutputSettings.fileNamePattern}
+                        value={output.fileNamePattern}
+                        onChange={(e) => setOutput({ ...output, fileNamePattern: e.target.value })}
+                        onBlur={() => {
+                          if (!output.fileNamePattern.trim()) {
+                            setOutput({ ...output, fileNamePattern: defaultOutputSettings.fileNamePattern });
+                          }
+                        }}
+                      />
+                      <select
+                        className="w-full p-2 border rounded-md text-sm"
+                        value=""
+                        onChange={(e) => setOutput({
+                          ...output,
+                          fileNamePattern: `${output.fileNamePattern}{${e.target.value}}`
+                        })}
+                      >
+                        <option value="">Insert column...</option>
+                        <option value="#">Row number</option>
+                        {availableFields.map((field) => (
+                          <option key={field} value={field}>{field}</option>
+                        ))}
+                      </select>
+                      {excelData[previewRow] && (
+                        <p className="text-xs text-muted-foreground break-all">
+                          Row {previewRow + 1}: {output.mode === 'merged'
+                            ? getRowLabel(output, excelData[previewRow], previewRow)
+                            : createFileNamer(output)(excelData[previewRow], previewRow)}
+                        </p>
+                      )}
+                    </div>
+
+                    {output.mode !== 'merged' && (
+                      <div>
+                        <label className="text-xs">Group Into Folders By</label>
+                        <select
+                          className="w-full p-2 border rounded-md"
+                          value={output.folderColumn || ''}
+                          onChange={(e) => setOutput({ ...output, folderColumn: e.target.value || undefined })}
+                        >
+                          <option value="">No folders</option>
+                          {availableFields.map((field) => (
+                            <option key={field} value={field}>{field}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                </Card>
+              </TabsContent>
             </Tabs>
           </div>
 
           <div className="col-span-9">
-            <Card className="w-full h-[calc(100vh-12rem)] bg-accent">
-              {pdfFile ? (
-                <PDFViewer 
-                  file={pdfFile} 
-                  fields={fields}
-                  onFieldPositionUpdate={handleFieldPositionUpdate}
-                />
-              ) : (
-                <div className="flex items-center justify-center h-full">
-                  <div className="text-center">
-                    <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-                    <p className="text-muted-foreground">Upload a PDF template to begin</p>
+            <Tabs value={mainTab} onValueChange={setMainTab}>
+              <div className="flex items-center justify-between gap-4 mb-2">
+                <TabsList>
+                  <TabsTrigger value="preview">Preview</TabsTrigger>
+                  <TabsTrigger value="data">Data</TabsTrigger>
+                </TabsList>
+                {mainTab === "preview" && pdfFile && excelData.length > 0 && (
+                  <div className="flex items-center gap-4">
+                    <RowStepper
+                      rowCount={excelData.length}
+                      row={previewRow}
+                      onRowChange={setPreviewRow}
+                    />
+                    <label className="flex items-center gap-2 text-sm">
+                      <Switch
+                        checked={exactPreview}
+                        onCheckedChange={setExactPreview}
+                      />
+                      Exact PDF preview
+                    </label>
                   </div>
-                </div>
-              )}
-            </Card>
+                )}
+              </div>
+              <TabsContent value="preview" className="mt-0">
+                <Card className="w-full h-[calc(100vh-14.5rem)] bg-accent">
+                  {pdfFile ? (
+                    <PDFViewer 
+                      file={pdfFile} 
+                      previewPdf={previewPdf}
+                      previewRow={excelData[previewRow]}
+                      fields={fields}
+                      customFonts={customFonts}
+                      page={currentPage}
+                      pageCount={pageCount}
+                      onPageChange={setCurrentPage}
+                      onFieldPositionUpdate={handleFieldPositionUpdate}
+                    />
+                  ) : (
+                    <div className="flex items-center justify-center h-full">
+                      <div className="text-center">
+                        <Upload className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                        <p className="text-muted-foreground">Upload a PDF template to begin</p>
+                      </div>
+                    </div>
+                  )}
+                </Card>
+              </TabsContent>
+              <TabsContent value="data" className="mt-0">
+                <Card className="w-full h-[calc(100vh-14.5rem)] p-4">
+                  {availableFields.length > 0 ? (
+                    <DataEditor
+                      table={{ headers: availableFields, rows: excelData }}
+                      onRowsChange={handleRowsChange}
+                      excludedRows={excludedRows}
+                      onExcludedRowsChange={setExcludedRows}
+                    />
+                  ) : (
+                    <div className="flex items-center justify-center h-full">
+                      <p className="text-muted-foreground">Upload or paste data to edit it here</p>
+                    </div>
+                  )}
+                </Card>
+              </TabsContent>
+            </Tabs>
           </div>
         </div>
       </main>
@@ -0,0 +1,62 @@
+"use client";
+
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { RULE_OPERATORS, RuleCondition, RuleOperator } from "@/lib/rules";
+
+interface ConditionEditorProps {
+  columns: string[];
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  onRemove: () => void;
+}
+
+export default function ConditionEditor({ columns, condition, onChange, onRemove }: ConditionEditorProps) {
+  const needsValue = RULE_OPERATORS.find(op => op.value === condition.operator)?.needsValue ?? true;
+
+  // Keep conditions on columns that no longer exist selectable
+  const options = columns.includes(condition.column) ? columns : [condition.column, ...columns];
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-1">
+        <select
+          className="flex-1 min-w-0 p-2 border rounded-md text-sm"
+          value={condition.column}
+          onChange={(e) => onChange({ ...condition, column: e.target.value })}
+        >
+          {options.map((column) => (
+            <option key={column} value={column}>{column}</option>
+          ))}
+        </select>
+        <select
+          className="w-28 p-2 border rounded-md text-sm"
+          value={condition.operator}
+          onChange={(e) => onChange({ ...condition, operator: e.target.value as RuleOperator })}
+        >
+          {RULE_OPERATORS.map((op) => (
+            <option key={op.value} value={op.value}>{op.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex gap-1">
+        {needsValue && (
+          <input
+            className="flex-1 min-w-0 p-2 border rounded-md text-sm"
+            placeholder="Value"
+            value={condition.value ?? ""}
+            onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          />
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`h-9 w-9 shrink-0 ${needsValue ? "" : "ml-auto"}`}
+          onClick={onRemove}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
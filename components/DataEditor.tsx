@@ -0,0 +1,198 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Filter, Plus, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import DataGrid, { DataGridSort } from "@/components/DataGrid";
+import ConditionEditor from "@/components/ConditionEditor";
+import { DataTable, cellText } from "@/lib/data-sources";
+import { RuleCondition } from "@/lib/rules";
+import { excludeAllBut, matchRows, parseRowRanges, removeRowIndex } from "@/lib/selection";
+
+interface DataEditorProps {
+  table: DataTable;
+  onRowsChange: (rows: Record<string, any>[]) => void;
+  // Rows left out of generation, see lib/selection
+  excludedRows: Set<number>;
+  onExcludedRowsChange: (excluded: Set<number>) => void;
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+export default function DataEditor({
+  table,
+  onRowsChange,
+  excludedRows,
+  onExcludedRowsChange
+}: DataEditorProps) {
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<DataGridSort | null>(null);
+  const [rangeText, setRangeText] = useState("");
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [conditions, setConditions] = useState<RuleCondition[]>([]);
+
+  // Filter and sort row indices only, so edits always land on the real row
+  const visibleRows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const indices = table.rows
+      .map((_, index) => index)
+      .filter((index) => !query || table.headers.some((header) =>
+        cellText(table.rows[index][header]).toLowerCase().includes(query)
+      ));
+
+    if (sort) {
+      const factor = sort.direction === "asc" ? 1 : -1;
+      indices.sort((a, b) => factor * collator.compare(
+        cellText(table.rows[a][sort.header]),
+        cellText(table.rows[b][sort.header])
+      ));
+    }
+    return indices;
+  }, [table, search, sort]);
+
+  const handleSortChange = (header: string) => {
+    if (sort?.header !== header) setSort({ header, direction: "asc" });
+    else if (sort.direction === "asc") setSort({ header, direction: "desc" });
+    else setSort(null);
+  };
+
+  const handleCellChange = (rowIndex: number, header: string, value: string) => {
+    onRowsChange(table.rows.map((row, index) => {
+      if (index !== rowIndex) return row;
+      const updated = { ...row, [header]: value };
+      // Keep blank cells absent, matching how imported rows look
+      if (value === "") delete updated[header];
+      return updated;
+    }));
+  };
+
+  const handleDeleteRow = (rowIndex: number) => {
+    onRowsChange(table.rows.filter((_, index) => index !== rowIndex));
+    onExcludedRowsChange(removeRowIndex(excludedRows, rowIndex));
+  };
+
+  const handleToggleRow = (rowIndex: number) => {
+    const excluded = new Set(excludedRows);
+    if (excluded.has(rowIndex)) excluded.delete(rowIndex);
+    else excluded.add(rowIndex);
+    onExcludedRowsChange(excluded);
+  };
+
+  const handleToggleAllRows = () => {
+    onExcludedRowsChange(excludedRows.size ? new Set() : excludeAllBut(table.rows.length, new Set()));
+  };
+
+  const handleSelectRange = () => {
+    try {
+      onExcludedRowsChange(excludeAllBut(table.rows.length, parseRowRanges(rangeText, table.rows.length)));
+      setRangeError(null);
+    } catch (error) {
+      setRangeError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleSelectMatching = () => {
+    onExcludedRowsChange(excludeAllBut(table.rows.length, matchRows(table.rows, conditions)));
+  };
+
+  const handleAddRow = () => {
+    setSearch("");
+    setSort(null);
+    onRowsChange([...table.rows, {}]);
+  };
+
+  return (
+    <div className="flex flex-col h-full gap-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            className="pl-8"
+            placeholder="Search rows"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <span className="text-sm text-muted-foreground whitespace-nowrap">
+          {visibleRows.length} of {table.rows.length} rows
+        </span>
+        <Button variant="outline" onClick={handleAddRow}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Row
+        </Button>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium whitespace-nowrap">Generate rows</span>
+        <Input
+          className="w-48"
+          placeholder="e.g. 12-40, 45"
+          value={rangeText}
+          onChange={(e) => setRangeText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleSelectRange();
+          }}
+        />
+        <Button variant="outline" disabled={!rangeText.trim()} onClick={handleSelectRange}>
+          Select Range
+        </Button>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline">
+              <Filter className="w-4 h-4 mr-2" />
+              Select Matching
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-96 space-y-2" align="start">
+            <p className="text-xs">Select rows where all of these match</p>
+            {conditions.map((condition, index) => (
+              <ConditionEditor
+                key={index}
+                columns={table.headers}
+                condition={condition}
+                onChange={(updated) => setConditions(conditions.map((c, i) => i === index ? updated : c))}
+                onRemove={() => setConditions(conditions.filter((_, i) => i !== index))}
+              />
+            ))}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                disabled={!table.headers.length}
+                onClick={() => setConditions([
+                  ...conditions,
+                  { column: table.headers[0], operator: "equals", value: "" }
+                ])}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Condition
+              </Button>
+              <Button size="sm" className="flex-1" disabled={!conditions.length} onClick={handleSelectMatching}>
+                Select Matching
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+        <span className="ml-auto text-sm text-muted-foreground whitespace-nowrap">
+          {table.rows.length - excludedRows.size} of {table.rows.length} selected
+        </span>
+      </div>
+      {rangeError && <p className="text-sm text-destructive">{rangeError}</p>}
+      <div className="flex-1 overflow-auto border rounded-md bg-background">
+        <DataGrid
+          table={table}
+          visibleRows={visibleRows}
+          sort={sort}
+          onSortChange={handleSortChange}
+          onCellChange={handleCellChange}
+          onDeleteRow={handleDeleteRow}
+          excludedRows={excludedRows}
+          onToggleRow={handleToggleRow}
+          onToggleAllRows={handleToggleAllRows}
+        />
+      </div>
+    </div>
+  );
+}
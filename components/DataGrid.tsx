@@ -0,0 +1,126 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { DataTable, cellText } from "@/lib/data-sources";
+
+export interface DataGridSort {
+  header: string;
+  direction: "asc" | "desc";
+}
+
+interface DataGridProps {
+  table: DataTable;
+  onCellChange: (rowIndex: number, header: string, value: string) => void;
+  // Indices into table.rows to show, in display order; defaults to all rows
+  visibleRows?: number[];
+  sort?: DataGridSort | null;
+  onSortChange?: (header: string) => void;
+  onDeleteRow?: (rowIndex: number) => void;
+  // Rows left out of generation; a checkbox column is shown when toggling
+  // is supported
+  excludedRows?: Set<number>;
+  onToggleRow?: (rowIndex: number) => void;
+  onToggleAllRows?: () => void;
+}
+
+// Spreadsheet-like table whose cells can be edited in place
+export default function DataGrid({
+  table,
+  onCellChange,
+  visibleRows,
+  sort,
+  onSortChange,
+  onDeleteRow,
+  excludedRows,
+  onToggleRow,
+  onToggleAllRows
+}: DataGridProps) {
+  const indices = visibleRows || table.rows.map((_, index) => index);
+
+  const excludedCount = excludedRows?.size || 0;
+  const allChecked = excludedCount === 0
+    ? true
+    : excludedCount >= table.rows.length ? false : "indeterminate";
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {onToggleRow && (
+            <TableHead className="w-10">
+              <Checkbox
+                checked={table.rows.length ? allChecked : false}
+                onCheckedChange={() => onToggleAllRows?.()}
+              />
+            </TableHead>
+          )}
+          <TableHead className="w-12 text-right">#</TableHead>
+          {table.headers.map((header) => (
+            <TableHead
+              key={header}
+              className={`whitespace-nowrap ${onSortChange ? "cursor-pointer select-none" : ""}`}
+              onClick={() => onSortChange?.(header)}
+            >
+              <span className="inline-flex items-center gap-1">
+                {header}
+                {sort?.header === header && (sort.direction === "asc"
+                  ? <ArrowUp className="h-3 w-3" />
+                  : <ArrowDown className="h-3 w-3" />)}
+              </span>
+            </TableHead>
+          ))}
+          {onDeleteRow && <TableHead className="w-10" />}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {indices.map((rowIndex) => {
+          const row = table.rows[rowIndex];
+          return (
+            <TableRow key={rowIndex} className={excludedRows?.has(rowIndex) ? "text-muted-foreground" : ""}>
+              {onToggleRow && (
+                <TableCell className="py-1">
+                  <Checkbox
+                    checked={!excludedRows?.has(rowIndex)}
+                    onCheckedChange={() => onToggleRow(rowIndex)}
+                  />
+                </TableCell>
+              )}
+              <TableCell className="py-1 text-right text-muted-foreground">{rowIndex + 1}</TableCell>
+              {table.headers.map((header) => (
+                <TableCell key={header} className="p-1">
+                  <input
+                    className="w-full min-w-[6rem] bg-transparent px-2 py-1 rounded-sm focus:outline focus:outline-1 focus:outline-primary"
+                    value={cellText(row[header])}
+                    onChange={(e) => onCellChange(rowIndex, header, e.target.value)}
+                  />
+                </TableCell>
+              ))}
+              {onDeleteRow && (
+                <TableCell className="p-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onDeleteRow(rowIndex)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              )}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
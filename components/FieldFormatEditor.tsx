@@ -0,0 +1,141 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DEFAULT_CURRENCY,
+  DEFAULT_DATE_PATTERN,
+  DEFAULT_LOCALE,
+  FieldFormat,
+  FormatType,
+  LOCALES,
+  TextCase
+} from "@/lib/formatters";
+
+interface FieldFormatEditorProps {
+  format?: FieldFormat;
+  onChange: (format: FieldFormat) => void;
+}
+
+export default function FieldFormatEditor({ format = {}, onChange }: FieldFormatEditorProps) {
+  const update = (changes: Partial<FieldFormat>) => onChange({ ...format, ...changes });
+
+  const type = format.type || "text";
+  const hasLocale = type !== "text" && type !== "ordinal";
+  const hasDecimals = type === "number" || type === "currency" || type === "percent";
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs">Value Type</label>
+          <select
+            className="w-full p-2 border rounded-md"
+            value={type}
+            onChange={(e) => update({ type: e.target.value as FormatType })}
+          >
+            <option value="text">Text</option>
+            <option value="date">Date</option>
+            <option value="number">Number</option>
+            <option value="currency">Currency</option>
+            <option value="percent">Percent</option>
+            <option value="ordinal">Ordinal (1st, 2nd)</option>
+          </select>
+        </div>
+        {hasLocale && (
+          <div>
+            <label className="text-xs">Locale</label>
+            <select
+              className="w-full p-2 border rounded-md"
+              value={format.locale || DEFAULT_LOCALE}
+              onChange={(e) => update({ locale: e.target.value })}
+            >
+              {Object.entries(LOCALES).map(([code, { label }]) => (
+                <option key={code} value={code}>{label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {type === "date" && (
+        <div>
+          <label className="text-xs">Date Pattern</label>
+          <input
+            className="w-full p-2 border rounded-md"
+            placeholder={DEFAULT_DATE_PATTERN}
+            value={format.datePattern ?? ""}
+            onChange={(e) => update({ datePattern: e.target.value || undefined })}
+          />
+        </div>
+      )}
+
+      {hasDecimals && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-xs">Decimals</label>
+            <input
+              type="number"
+              min={0}
+              max={20}
+              className="w-full p-2 border rounded-md"
+              placeholder="Auto"
+              value={format.decimals ?? ""}
+              onChange={(e) => {
+                const decimals = parseInt(e.target.value);
+                update({ decimals: isNaN(decimals) ? undefined : Math.min(Math.max(decimals, 0), 20) });
+              }}
+            />
+          </div>
+          {type === "currency" && (
+            <div>
+              <label className="text-xs">Currency</label>
+              <input
+                className="w-full p-2 border rounded-md uppercase"
+                maxLength={3}
+                placeholder={DEFAULT_CURRENCY}
+                value={format.currency ?? ""}
+                onChange={(e) => update({ currency: e.target.value.toUpperCase() || undefined })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs">Case</label>
+          <select
+            className="w-full p-2 border rounded-md"
+            value={format.textCase || ""}
+            onChange={(e) => update({ textCase: (e.target.value || undefined) as TextCase | undefined })}
+          >
+            <option value="">As entered</option>
+            <option value="upper">UPPERCASE</option>
+            <option value="lower">lowercase</option>
+            <option value="title">Title Case</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-xs">Default Value</label>
+          <input
+            className="w-full p-2 border rounded-md"
+            placeholder="When empty"
+            value={format.fallback ?? ""}
+            onChange={(e) => update({ fallback: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center">
+        <Checkbox
+          id="format-trim"
+          checked={!!format.trim}
+          onCheckedChange={(checked) => update({ trim: checked === true || undefined })}
+        />
+        <label htmlFor="format-trim" className="ml-2 text-sm cursor-pointer">
+          Trim extra spaces
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import ConditionEditor from "@/components/ConditionEditor";
+import type { TextStyles } from "@/components/TextStyler";
+import { CertificateField } from "@/lib/fields";
+import { RuleCondition, StyleRule } from "@/lib/rules";
+
+interface FieldRulesEditorProps {
+  field: CertificateField;
+  columns: string[];
+  onChange: (updates: Partial<CertificateField>) => void;
+}
+
+const replaceAt = <T,>(items: T[], index: number, item: T) =>
+  items.map((current, i) => i === index ? item : current);
+
+export default function FieldRulesEditor({ field, columns, onChange }: FieldRulesEditorProps) {
+  const visibleWhen = field.visibleWhen || [];
+  const styleRules = field.styleRules || [];
+
+  const newCondition = (): RuleCondition => ({ column: columns[0], operator: "equals", value: "" });
+
+  // Drop empty lists so fields without rules stay unchanged in saved projects
+  const setVisibleWhen = (conditions: RuleCondition[]) =>
+    onChange({ visibleWhen: conditions.length ? conditions : undefined });
+  const setStyleRules = (rules: StyleRule[]) =>
+    onChange({ styleRules: rules.length ? rules : undefined });
+
+  const updateRuleStyles = (index: number, changes: Partial<TextStyles>) => {
+    const rule = styleRules[index];
+    const styles = { ...rule.styles, ...changes };
+    // An undefined override means "keep the field's own style"
+    (Object.keys(changes) as (keyof TextStyles)[]).forEach((key) => {
+      if (changes[key] === undefined) delete styles[key];
+    });
+    setStyleRules(replaceAt(styleRules, index, { ...rule, styles }));
+  };
+
+  if (!columns.length) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Upload a data file to add rules
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-xs">
+          {visibleWhen.length ? "Show only when all of these match" : "Shown on every row"}
+        </label>
+        {visibleWhen.map((condition, index) => (
+          <ConditionEditor
+            key={index}
+            columns={columns}
+            condition={condition}
+            onChange={(updated) => setVisibleWhen(replaceAt(visibleWhen, index, updated))}
+            onRemove={() => setVisibleWhen(visibleWhen.filter((_, i) => i !== index))}
+          />
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => setVisibleWhen([...visibleWhen, newCondition()])}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Condition
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs">Style overrides, applied in order</label>
+        {styleRules.map((rule, index) => (
+          <div key={index} className="p-2 border rounded-md space-y-2">
+            <ConditionEditor
+              columns={columns}
+              condition={rule.condition}
+              onChange={(condition) => setStyleRules(replaceAt(styleRules, index, { ...rule, condition }))}
+              onRemove={() => setStyleRules(styleRules.filter((_, i) => i !== index))}
+            />
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="text-xs">Weight</label>
+                <select
+                  className="w-full p-2 border rounded-md text-sm"
+                  value={rule.styles.fontWeight || ""}
+                  onChange={(e) => updateRuleStyles(index, { fontWeight: e.target.value || undefined })}
+                >
+                  <option value="">Same</option>
+                  <option value="bold">Bold</option>
+                  <option value="normal">Normal</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-xs">Style</label>
+                <select
+                  className="w-full p-2 border rounded-md text-sm"
+                  value={rule.styles.fontStyle || ""}
+                  onChange={(e) => updateRuleStyles(index, { fontStyle: e.target.value || undefined })}
+                >
+                  <option value="">Same</option>
+                  <option value="italic">Italic</option>
+                  <option value="normal">Normal</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-xs">Size</label>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full p-2 border rounded-md text-sm"
+                  placeholder="Same"
+                  value={rule.styles.fontSize ?? ""}
+                  onChange={(e) => updateRuleStyles(index, { fontSize: parseFloat(e.target.value) || undefined })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`rule-color-${field.id}-${index}`}
+                checked={rule.styles.color !== undefined}
+                onCheckedChange={(checked) => updateRuleStyles(index, {
+                  color: checked === true ? field.styles?.color || "#000000" : undefined
+                })}
+              />
+              <label htmlFor={`rule-color-${field.id}-${index}`} className="text-sm cursor-pointer">
+                Color
+              </label>
+              {rule.styles.color !== undefined && (
+                <input
+                  type="color"
+                  className="h-8 w-12 border rounded-md"
+                  value={rule.styles.color}
+                  onChange={(e) => updateRuleStyles(index, { color: e.target.value })}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => setStyleRules([...styleRules, { condition: newCondition(), styles: {} }])}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Style Rule
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { GenerationProgress } from "@/lib/generation";
+
+interface GenerationProgressDialogProps {
+  open: boolean;
+  progress: GenerationProgress | null;
+  startedAt: number;
+  // Label of the last finished row
+  currentRecipient?: string;
+  // Number of certificates kept from a cancelled run, when there is one
+  partialCount: number | null;
+  onCancel: () => void;
+  onDownloadPartial: () => void;
+  onDiscardPartial: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+export default function GenerationProgressDialog({
+  open,
+  progress,
+  startedAt,
+  currentRecipient,
+  partialCount,
+  onCancel,
+  onDownloadPartial,
+  onDiscardPartial
+}: GenerationProgressDialogProps) {
+  const done = progress?.done || 0;
+  const total = progress?.total || 0;
+  const percent = total ? (done / total) * 100 : 0;
+
+  // Extrapolate from the average time per row so far
+  const elapsed = Date.now() - startedAt;
+  const remaining = done ? (elapsed / done) * (total - done) : null;
+  const packaging = total > 0 && done === total;
+
+  return (
+    // Closing by clicking outside would hide a run that is still going
+    <Dialog open={open}>
+      <DialogContent className="max-w-md [&>button]:hidden">
+        {partialCount === null ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Generating certificates</DialogTitle>
+              <DialogDescription>
+                {packaging
+                  ? "Preparing the download..."
+                  : `${done} of ${total} rows done`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <Progress value={percent} />
+            {!packaging && (
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span className="truncate">
+                  {currentRecipient ? `Last: ${currentRecipient}` : "Starting..."}
+                </span>
+                {remaining !== null && (
+                  <span className="whitespace-nowrap ml-2">About {formatDuration(remaining)} left</span>
+                )}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" disabled={packaging} onClick={onCancel}>Cancel</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Generation cancelled</DialogTitle>
+              <DialogDescription>
+                {partialCount} of {total} certificates were generated before cancelling.
+              </DialogDescription>
+            </DialogHeader>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={onDiscardPartial}>Discard</Button>
+              <Button disabled={!partialCount} onClick={onDownloadPartial}>
+                Download {partialCount} {partialCount === 1 ? "certificate" : "certificates"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,110 +1,262 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
-import { PDFDocument } from "pdf-lib";
-import { ZoomIn, ZoomOut, Move } from "lucide-react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { ZoomIn, ZoomOut, Move, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import Draggable from "react-draggable";
-import { TextStyles } from "@/components/TextStyler";
+import { CertificateField, getFieldPage } from "@/lib/fields";
+import {
+  BoxSize,
+  DEFAULT_ANCHOR,
+  FontMetrics,
+  anchorToTopLeft,
+  baselineOffset,
+  displayToPdf,
+  getLineHeight,
+  pdfToDisplay,
+  topLeftToAnchor
+} from "@/lib/coordinates";
+import { PDFDocumentProxy, loadPdfDocument, renderPage } from "@/lib/pdf-render";
+import { getFieldValue } from "@/lib/certificate";
+import { CustomFont, createMetricsResolver } from "@/lib/fonts";
+import { getRowStyles, isFieldVisible } from "@/lib/rules";
+import type { TextStyles } from "@/components/TextStyler";
 
 interface PDFViewerProps {
   file: File;
-  fields: Array<{ 
-    id: string; 
-    name: string; 
-    x: number; 
-    y: number;
-    styles?: TextStyles;
-  }>;
+  // Generated output for the previewed row, shown instead of the template
+  previewPdf?: Uint8Array | null;
+  // Row whose values are shown in the field overlay
+  previewRow?: Record<string, any>;
+  fields: CertificateField[];
+  customFonts: CustomFont[];
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
   onFieldPositionUpdate: (id: string, x: number, y: number) => void;
 }
 
-export default function PDFViewer({ file, fields, onFieldPositionUpdate }: PDFViewerProps) {
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 2;
+
+const clampScale = (scale: number) => Math.min(Math.max(MIN_SCALE, scale), MAX_SCALE);
+
+// Measure the browser's metrics for the face the overlay renders with. They
+// only tell where CSS puts the glyphs; positions use the embedded font's.
+const measureFontMetrics = (styles: TextStyles | undefined, fontSize: number): FontMetrics => {
+  const context = document.createElement("canvas").getContext("2d");
+  if (context) {
+    context.font = `${styles?.fontStyle || "normal"} ${styles?.fontWeight || "normal"} ${fontSize}px "${styles?.fontFamily || "Arial"}"`;
+    const metrics = context.measureText("Hg");
+    if (metrics.fontBoundingBoxAscent !== undefined) {
+      return { ascent: metrics.fontBoundingBoxAscent, descent: metrics.fontBoundingBoxDescent };
+    }
+  }
+  return { ascent: fontSize * 0.8, descent: fontSize * 0.2 };
+};
+
+type MetricsResolver = ReturnType<typeof createMetricsResolver>;
+
+interface FieldOverlayProps {
+  field: CertificateField;
+  rowData?: Record<string, any>;
+  resolveMetrics: MetricsResolver;
+  pageHeight: number;
+  scale: number;
+  onPositionUpdate: (id: string, x: number, y: number) => void;
+}
+
+function FieldOverlay({ field, rowData, resolveMetrics, pageHeight, scale, onPositionUpdate }: FieldOverlayProps) {
+  const nodeRef = useRef<HTMLDivElement>(null);
+  const [box, setBox] = useState<BoxSize>({ width: 0, height: 0 });
+  // Metrics of the embedded font per point of size, once resolved
+  const [unitMetrics, setUnitMetrics] = useState<FontMetrics | null>(null);
+
+  // Track the rendered box size, which center anchors depend on
+  useEffect(() => {
+    const node = nodeRef.current;
+    if (!node) return;
+
+    const observer = new ResizeObserver(() => {
+      setBox({ width: node.offsetWidth, height: node.offsetHeight });
+    });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, []);
+
+  // Preview the field as the rules would draw it for this row; hidden
+  // fields stay on the page, faded, so they can still be positioned
+  const styles = rowData ? getRowStyles(field, rowData) : field.styles;
+  const hidden = rowData ? !isFieldVisible(field, rowData) : false;
+
+  const fontFamily = styles?.fontFamily;
+  const fontWeight = styles?.fontWeight;
+  const fontStyle = styles?.fontStyle;
+
+  useEffect(() => {
+    let cancelled = false;
+    resolveMetrics({ fontFamily, fontWeight, fontStyle } as TextStyles)
+      .then(metrics => !cancelled && setUnitMetrics(metrics))
+      .catch(error => console.error("Error reading font metrics:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [resolveMetrics, fontFamily, fontWeight, fontStyle]);
+
+  const fontSize = styles?.fontSize || 16;
+  const lineHeight = getLineHeight(field);
+  const anchor = field.anchor || DEFAULT_ANCHOR;
+
+  // Baselines come from the font the exporter embeds. The browser renders
+  // with its own face, so the text is nudged until its baseline sits there.
+  const browserMetrics = measureFontMetrics(styles, fontSize);
+  const metrics = unitMetrics
+    ? { ascent: unitMetrics.ascent * fontSize, descent: unitMetrics.descent * fontSize }
+    : browserMetrics;
+  const baseline = baselineOffset(fontSize, lineHeight, metrics);
+  const textShift = baseline - baselineOffset(fontSize, lineHeight, browserMetrics);
+
+  // The overlay is laid out at one CSS pixel per PDF point; zoom is applied
+  // by the parent transform, which Draggable compensates for via `scale`
+  const position = pdfToDisplay(anchorToTopLeft(anchor, field, box, baseline), pageHeight);
+  const anchorPoint = pdfToDisplay(field, pageHeight);
+
+  // Show the row's value when there is one, the column name otherwise.
+  // Static text has a value even without any data loaded.
+  const value = getFieldValue(field, rowData || {});
+
+  const handleDragStop = (e: any, data: { x: number; y: number }) => {
+    const topLeft = displayToPdf(data, pageHeight);
+    const point = topLeftToAnchor(anchor, topLeft, box, baseline);
+    onPositionUpdate(field.id, point.x, point.y);
+  };
+
+  return (
+    <Draggable
+      nodeRef={nodeRef}
+      position={position}
+      scale={scale}
+      onStop={handleDragStop}
+      bounds="parent"
+    >
+      <div
+        ref={nodeRef}
+        className={`absolute top-0 left-0 cursor-move bg-white/70 outline outline-1 outline-primary pointer-events-auto ${hidden ? "opacity-40 outline-dashed" : ""}`}
+        style={{
+          width: field.maxWidth || "auto",
+          height: field.maxHeight,
+          fontFamily: styles?.fontFamily || 'Arial',
+          fontSize: `${fontSize}px`,
+          fontWeight: styles?.fontWeight || 'normal',
+          fontStyle: styles?.fontStyle || 'normal',
+          textDecoration: styles?.textDecoration || 'none',
+          textAlign: styles?.textAlign as "left" | "center" | "right" | "justify" | undefined || "left",
+          color: styles?.color || '#000000',
+          lineHeight,
+          whiteSpace: field.mode === 'paragraph' ? 'pre-line' : 'nowrap',
+          overflowWrap: field.wrap === 'anywhere' ? 'anywhere' : 'normal'
+        }}
+      >
+        <div className="relative" style={{ top: textShift }}>
+          {value || <span className="opacity-50">{field.name}</span>}
+        </div>
+        {/* Marks the anchor point that field.x/field.y refers to */}
+        <span
+          className="absolute w-1.5 h-1.5 -ml-[3px] -mt-[3px] rounded-full bg-primary"
+          style={{ left: anchorPoint.x - position.x, top: anchorPoint.y - position.y }}
+        />
+      </div>
+    </Draggable>
+  );
+}
+
+export default function PDFViewer({
+  file,
+  previewPdf,
+  previewRow,
+  fields,
+  customFonts,
+  page,
+  pageCount,
+  onPageChange,
+  onFieldPositionUpdate
+}: PDFViewerProps) {
   const [scale, setScale] = useState(1);
   const [isDragging, setIsDragging] = useState(false);
   const [position, setPosition] = useState({ x: 0, y: 0 });
-  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
-  const [pdfDimensions, setPdfDimensions] = useState({ width: 0, height: 0 });
-  const [embedRect, setEmbedRect] = useState({ left: 0, top: 0, width: 0, height: 0 });
+  const [pdfDoc, setPdfDoc] = useState<PDFDocumentProxy | null>(null);
+  const [pageSize, setPageSize] = useState({ width: 0, height: 0 });
   const containerRef = useRef<HTMLDivElement>(null);
-  const embedRef = useRef<HTMLEmbedElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const dragStartRef = useRef({ x: 0, y: 0 });
-  const fieldsContainerRef = useRef<HTMLDivElement>(null);
+  const resolveMetrics = useMemo(() => createMetricsResolver(customFonts), [customFonts]);
 
-  // Load the PDF and get its dimensions
+  // Load the PDF with pdf.js so pages can be rasterized into the canvas
   useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
     const loadPdf = async () => {
       try {
-        const arrayBuffer = await file.arrayBuffer();
-        const pdfDoc = await PDFDocument.load(arrayBuffer);
-        const page = pdfDoc.getPage(0);
-        const { width, height } = page.getSize();
-        
-        setPdfDimensions({ width, height });
-        
-        const url = URL.createObjectURL(file);
-        setPdfUrl(url);
+        loaded = await loadPdfDocument(previewPdf || await file.arrayBuffer());
+        if (cancelled) {
+          loaded.destroy();
+          return;
+        }
+        setPdfDoc(loaded);
       } catch (error) {
         console.error("Error loading PDF:", error);
       }
     };
-    
+
     loadPdf();
-    
+
     return () => {
-      if (pdfUrl) URL.revokeObjectURL(pdfUrl);
+      cancelled = true;
+      loaded?.destroy();
+      setPdfDoc(null);
     };
-  }, [file]);
+  }, [file, previewPdf]);
 
-  // Update measurements after PDF loads and on resize
+  // Fit the page into the viewport whenever a different page size comes up
   useEffect(() => {
-    if (!pdfUrl) return;
-
-    const updateMeasurements = () => {
-      if (embedRef.current && fieldsContainerRef.current) {
-        const eRect = embedRef.current.getBoundingClientRect();
-        const fRect = fieldsContainerRef.current.getBoundingClientRect();
-        
-        setEmbedRect({
-          left: eRect.left - fRect.left,
-          top: eRect.top - fRect.top,
-          width: eRect.width,
-          height: eRect.height
-        });
-      }
-    };
+    const container = containerRef.current;
+    if (!container || pageSize.width === 0) return;
 
-    // Use MutationObserver to detect when PDF is fully loaded in the embed
-    const observer = new MutationObserver((mutations) => {
-      updateMeasurements();
-    });
-    
-    if (embedRef.current) {
-      observer.observe(embedRef.current, { attributes: true, childList: true, subtree: true });
-    }
-    
-    // Initial update with delay to allow PDF to render
-    const timeout = setTimeout(updateMeasurements, 1000);
-    
-    // Update on window resize
-    window.addEventListener('resize', updateMeasurements);
-    
-    return () => {
-      observer.disconnect();
-      clearTimeout(timeout);
-      window.removeEventListener('resize', updateMeasurements);
-    };
-  }, [pdfUrl]);
+    const fit = Math.min(
+      container.clientWidth / pageSize.width,
+      container.clientHeight / pageSize.height
+    ) * 0.95;
+    setScale(clampScale(fit));
+    setPosition({ x: 0, y: 0 });
+  }, [pageSize.width, pageSize.height]);
 
-  // Calculate the scaling ratio between display and actual PDF
-  const getScalingRatio = () => {
-    if (embedRect.width === 0 || pdfDimensions.width === 0) return 1;
-    return embedRect.width / pdfDimensions.width;
-  };
+  // Render the current page. The overlay shares the canvas' coordinate space
+  // of one CSS pixel per PDF point. pdf.js already applies the crop box and
+  // rotation, so field positions need no conversion beyond flipping the Y
+  // axis.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!pdfDoc || !canvas) return;
 
+    let renderTask: { cancel: () => void } | null = null;
+    const resolution = scale * (window.devicePixelRatio || 1);
+
+    renderPage(pdfDoc, Math.min(page, pdfDoc.numPages - 1), canvas, resolution, (task) => {
+      renderTask = task;
+    })
+      .then((size) => setPageSize(size))
+      .catch((error) => {
+        if (error?.name !== "RenderingCancelledException") {
+          console.error("Error rendering PDF page:", error);
+        }
+      });
+
+    return () => renderTask?.cancel();
+  }, [pdfDoc, page, scale]);
 
   const handleMouseDown = (e: React.MouseEvent) => {
-    if ((e.target as HTMLElement).tagName === 'EMBED') {
+    if ((e.target as HTMLElement).tagName === 'CANVAS') {
       setIsDragging(true);
       dragStartRef.current = {
         x: e.clientX - position.x,
@@ -125,34 +277,6 @@ export default function PDFViewer({ file, fields, onFieldPositionUpdate }: PDFVi
     setIsDragging(false);
   };
 
-  const pdfToDisplayCoords = (x: number, y: number) => {
-    const ratio = getScalingRatio();
-    
-    // PDF coordinates: origin at bottom-left, Y axis goes up
-    // Display coordinates: origin at top-left, Y axis goes down
-    return {
-      x: x * ratio,
-      y: (pdfDimensions.height - y) * ratio // Invert Y axis
-    };
-  };
-  
-  // Convert display coordinates to PDF coordinates
-  const displayToPdfCoords = (x: number, y: number) => {
-    const ratio = getScalingRatio();
-    
-    return {
-      x: x / ratio,
-      y: pdfDimensions.height - (y / ratio) // Invert Y axis back
-    };
-  };
-  
-  // And update the handleDragStop function:
-  const handleDragStop = (id: string, e: any, data: { x: number; y: number }) => {
-    // Convert display coordinates to PDF coordinates before updating
-    const pdfCoords = displayToPdfCoords(data.x, data.y);
-    onFieldPositionUpdate(id, pdfCoords.x, pdfCoords.y);
-  };
-
   useEffect(() => {
     const container = containerRef.current;
     if (!container) return;
@@ -161,7 +285,7 @@ export default function PDFViewer({ file, fields, onFieldPositionUpdate }: PDFVi
       if (e.ctrlKey) {
         e.preventDefault();
         const delta = e.deltaY > 0 ? -0.1 : 0.1;
-        setScale((prev) => Math.min(Math.max(0.5, prev + delta), 2));
+        setScale((prev) => clampScale(prev + delta));
       }
     };
 
@@ -169,29 +293,20 @@ export default function PDFViewer({ file, fields, onFieldPositionUpdate }: PDFVi
     return () => container.removeEventListener("wheel", handleWheel);
   }, []);
 
-  // Log for debugging
-  useEffect(() => {
-    if (pdfDimensions.width > 0) {
-      console.log("PDF Dimensions:", pdfDimensions);
-      console.log("Embed Rect:", embedRect);
-      console.log("Scaling Ratio:", getScalingRatio());
-    }
-  }, [pdfDimensions, embedRect]);
-
   return (
     <div className="relative w-full h-full overflow-hidden">
       <div className="absolute top-4 right-4 space-x-2 z-10">
         <Button
           variant="secondary"
           size="icon"
-          onClick={() => setScale((prev) => Math.min(prev + 0.1, 2))}
+          onClick={() => setScale((prev) => clampScale(prev + 0.1))}
         >
           <ZoomIn className="h-4 w-4" />
         </Button>
         <Button
           variant="secondary"
           size="icon"
-          onClick={() => setScale((prev) => Math.max(prev - 0.1, 0.5))}
+          onClick={() => setScale((prev) => clampScale(prev - 0.1))}
         >
           <ZoomOut className="h-4 w-4" />
         </Button>
@@ -200,84 +315,68 @@ export default function PDFViewer({ file, fields, onFieldPositionUpdate }: PDFVi
         </Button>
       </div>
 
+      {pageCount > 1 && (
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 z-10">
+          <Button
+            variant="secondary"
+            size="icon"
+            disabled={page === 0}
+            onClick={() => onPageChange(page - 1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm bg-secondary rounded-md px-3 py-2">
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button
+            variant="secondary"
+            size="icon"
+            disabled={page >= pageCount - 1}
+            onClick={() => onPageChange(page + 1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
       <div
         ref={containerRef}
-        className="w-full h-full cursor-grab relative"
+        className="w-full h-full cursor-grab relative flex items-center justify-center"
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
       >
         <div
+          className="relative shrink-0 bg-white shadow-lg"
           style={{
             transform: `translate(${position.x}px, ${position.y}px) scale(${scale})`,
             transformOrigin: "center",
             transition: isDragging ? "none" : "transform 0.2s",
-            height: "100%",
-            width: "100%",
-            position: "relative"
+            width: pageSize.width,
+            height: pageSize.height
           }}
         >
-          {pdfUrl && (
-            <>
-              <embed
-                ref={embedRef}
-                src={pdfUrl}
-                type="application/pdf"
-                className="w-full h-full border-0"
-                style={{ 
-                  width: "100%", 
-                  height: "100%",
-                  minHeight: "600px"
-                }}
-              />
-              
-              <div 
-                ref={fieldsContainerRef}
-                className="absolute top-0 left-0 w-full h-full pointer-events-none"
-                style={{
-                  position: "absolute",
-                  top: 0,
-                  left: 0,
-                  width: embedRect.width > 0 ? embedRect.width : "100%",
-                  height: embedRect.height > 0 ? embedRect.height : "100%"
-                }}
-              >
-                {fields.map((field) => {
-                  // Convert PDF coordinates to display coordinates
-                  const displayCoords = pdfToDisplayCoords(field.x, field.y);
-                  
-                  return (
-                    <Draggable
-                      key={field.id}
-                      defaultPosition={{ x: displayCoords.x, y: displayCoords.y }}
-                      onStop={(e, data) => handleDragStop(field.id, e, data)}
-                      bounds="parent"
-                    >
-                      <div
-                        className="absolute cursor-move bg-white/90 border border-primary p-2 rounded shadow-lg pointer-events-auto"
-                        style={{ 
-                          width: "auto", 
-                          minWidth: "100px",
-                          fontFamily: field.styles?.fontFamily || 'Arial',
-                          fontSize: `${field.styles?.fontSize || 16}px`,
-                          fontWeight: field.styles?.fontWeight || 'normal',
-                          fontStyle: field.styles?.fontStyle || 'normal',
-                          textDecoration: field.styles?.textDecoration || 'none',
-                          textAlign: field.styles?.textAlign as "left" | "center" | "right" | "justify" | undefined || "left",
-                          color: field.styles?.color || '#000000'
-                        }}
-                      >
-                        {field.name}
-                      </div>
-                    </Draggable>
-                  );
-                })}
-              </div>
-            </>
+          <canvas ref={canvasRef} className="block" />
+
+          {/* The exact preview already contains the drawn fields */}
+          {!previewPdf && (
+            <div className="absolute inset-0 pointer-events-none">
+              {fields.filter((field) => getFieldPage(field, pageCount) === page).map((field) => (
+                <FieldOverlay
+                  key={field.id}
+                  field={field}
+                  rowData={previewRow}
+                  resolveMetrics={resolveMetrics}
+                  pageHeight={pageSize.height}
+                  scale={scale}
+                  onPositionUpdate={onFieldPositionUpdate}
+                />
+              ))}
+            </div>
           )}
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import DataGrid from "@/components/DataGrid";
+import { DataTable, parseClipboardText } from "@/lib/data-sources";
+
+interface PasteDataDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (table: DataTable) => void;
+}
+
+const emptyTable: DataTable = { headers: [], rows: [] };
+
+export default function PasteDataDialog({ open, onOpenChange, onImport }: PasteDataDialogProps) {
+  const [text, setText] = useState("");
+  const [table, setTable] = useState<DataTable>(emptyTable);
+
+  // Re-parsing replaces any edits made in the grid
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setTable(value.trim() ? parseClipboardText(value) : emptyTable);
+  };
+
+  const handleCellChange = (rowIndex: number, header: string, value: string) => {
+    setTable({
+      ...table,
+      rows: table.rows.map((row, index) =>
+        index === rowIndex ? { ...row, [header]: value } : row
+      )
+    });
+  };
+
+  const handleImport = () => {
+    onImport(table);
+    setText("");
+    setTable(emptyTable);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Paste Data</DialogTitle>
+          <DialogDescription>
+            Copy a range including its header row from your spreadsheet and paste it below.
+            Fix any typos in the table before using the data.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          className="font-mono text-xs h-28"
+          placeholder="Paste tab-separated rows here"
+          value={text}
+          onChange={(e) => handleTextChange(e.target.value)}
+        />
+
+        {table.headers.length > 0 && (
+          <>
+            <div className="max-h-72 overflow-auto border rounded-md">
+              <DataGrid table={table} onCellChange={handleCellChange} />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {table.rows.length} rows, {table.headers.length} columns
+            </p>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={!table.rows.length} onClick={handleImport}>
+            Use Data
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ChevronFirst,
+  ChevronLast,
+  ChevronLeft,
+  ChevronRight
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface RowStepperProps {
+  rowCount: number;
+  row: number;
+  onRowChange: (row: number) => void;
+}
+
+export default function RowStepper({ rowCount, row, onRowChange }: RowStepperProps) {
+  const [jumpValue, setJumpValue] = useState(String(row + 1));
+
+  // Keep the jump box in sync when the row changes from the buttons
+  useEffect(() => {
+    setJumpValue(String(row + 1));
+  }, [row]);
+
+  const goTo = (target: number) => {
+    onRowChange(Math.min(Math.max(target, 0), rowCount - 1));
+  };
+
+  const handleJump = () => {
+    const target = parseInt(jumpValue);
+    if (isNaN(target)) {
+      setJumpValue(String(row + 1));
+      return;
+    }
+    goTo(target - 1);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button variant="outline" size="icon" className="h-8 w-8" disabled={row === 0} onClick={() => goTo(0)}>
+        <ChevronFirst className="h-4 w-4" />
+      </Button>
+      <Button variant="outline" size="icon" className="h-8 w-8" disabled={row === 0} onClick={() => goTo(row - 1)}>
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+      <span className="text-sm px-1">Row</span>
+      <input
+        type="number"
+        min={1}
+        max={rowCount}
+        className="w-16 h-8 px-2 border rounded-md text-sm"
+        value={jumpValue}
+        onChange={(e) => setJumpValue(e.target.value)}
+        onBlur={handleJump}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") handleJump();
+        }}
+      />
+      <span className="text-sm px-1 text-muted-foreground">of {rowCount}</span>
+      <Button variant="outline" size="icon" className="h-8 w-8" disabled={row >= rowCount - 1} onClick={() => goTo(row + 1)}>
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+      <Button variant="outline" size="icon" className="h-8 w-8" disabled={row >= rowCount - 1} onClick={() => goTo(rowCount - 1)}>
+        <ChevronLast className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
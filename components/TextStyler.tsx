@@ -8,6 +8,7 @@ import {
   AlignLeft, 
   AlignCenter, 
   AlignRight, 
+  AlignJustify,
   Type 
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -27,6 +28,7 @@ import {
 interface TextStylerProps {
   onStyleChange: (styles: TextStyles) => void;
   initialStyles?: TextStyles;
+  customFonts?: string[];
 }
 
 export interface TextStyles {
@@ -58,7 +60,7 @@ const fontFamilies = [
   "Helvetica"
 ];
 
-export default function TextStyler({ onStyleChange, initialStyles = defaultStyles }: TextStylerProps) {
+export default function TextStyler({ onStyleChange, initialStyles = defaultStyles, customFonts = [] }: TextStylerProps) {
   const [styles, setStyles] = useState<TextStyles>(initialStyles);
 
   const updateStyle = (property: keyof TextStyles, value: any) => {
@@ -82,7 +84,7 @@ export default function TextStyler({ onStyleChange, initialStyles = defaultStyle
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent>
-          {fontFamilies.map((font) => (
+          {[...fontFamilies, ...customFonts].map((font) => (
             <DropdownMenuItem 
               key={font}
               onClick={() => updateStyle('fontFamily', font)}
@@ -171,6 +173,15 @@ export default function TextStyler({ onStyleChange, initialStyles = defaultStyle
         <AlignRight className="h-3.5 w-3.5" />
       </Button>
 
+      <Button 
+        variant={styles.textAlign === 'justify' ? 'default' : 'outline'} 
+        size="sm" 
+        className="h-8 w-8 p-0"
+        onClick={() => updateStyle('textAlign', 'justify')}
+      >
+        <AlignJustify className="h-3.5 w-3.5" />
+      </Button>
+
       {/* Color Picker */}
       <div className="flex items-center">
         <input 
@@ -0,0 +1,105 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { ValidationIssue, ValidationIssueKind } from "@/lib/validation";
+
+interface ValidationReportDialogProps {
+  issues: ValidationIssue[] | null;
+  onCancel: () => void;
+  onContinue: () => void;
+}
+
+const KIND_LABELS: Record<ValidationIssueKind, string> = {
+  blank: "Blank required field",
+  duplicate: "Duplicate value",
+  overflow: "Doesn't fit",
+  unencodable: "Unsupported characters",
+};
+
+// Rendering thousands of rows makes the dialog sluggish
+const MAX_LISTED = 500;
+
+export default function ValidationReportDialog({ issues, onCancel, onContinue }: ValidationReportDialogProps) {
+  const counts = (issues || []).reduce<Partial<Record<ValidationIssueKind, number>>>(
+    (totals, issue) => ({ ...totals, [issue.kind]: (totals[issue.kind] || 0) + 1 }),
+    {}
+  );
+  const rowCount = new Set(issues?.map(issue => issue.row)).size;
+  // pdf-lib can't draw characters missing from the font, so generation
+  // would fail on those rows
+  const blocking = !!counts.unencodable;
+
+  return (
+    <Dialog open={!!issues} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Check your data</DialogTitle>
+          <DialogDescription>
+            {rowCount} {rowCount === 1 ? "row has" : "rows have"} problems that would show up
+            on the generated certificates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(counts) as ValidationIssueKind[]).map((kind) => (
+            <span key={kind} className="px-2 py-1 text-xs rounded-md bg-secondary">
+              {KIND_LABELS[kind]}: {counts[kind]}
+            </span>
+          ))}
+        </div>
+
+        <div className="max-h-80 overflow-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16 text-right">Row</TableHead>
+                <TableHead>Field</TableHead>
+                <TableHead>Problem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {issues?.slice(0, MAX_LISTED).map((issue, index) => (
+                <TableRow key={index}>
+                  <TableCell className="text-right">{issue.row + 1}</TableCell>
+                  <TableCell>{issue.field}</TableCell>
+                  <TableCell>{issue.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {issues && issues.length > MAX_LISTED && (
+          <p className="text-sm text-muted-foreground">
+            Showing the first {MAX_LISTED} of {issues.length} problems.
+          </p>
+        )}
+        {blocking && (
+          <p className="text-sm text-destructive">
+            Replace the unsupported characters or pick a font that has them before generating.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Fix Data</Button>
+          <Button disabled={blocking} onClick={onContinue}>Generate Anyway</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { WorkBook } from "xlsx";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { DataTable, cellText, getSheetRows, sheetToTable } from "@/lib/data-sources";
+
+interface WorkbookImportDialogProps {
+  workbook: WorkBook | null;
+  fileName: string;
+  onCancel: () => void;
+  onImport: (table: DataTable) => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+export default function WorkbookImportDialog({
+  workbook,
+  fileName,
+  onCancel,
+  onImport
+}: WorkbookImportDialogProps) {
+  const [sheetName, setSheetName] = useState("");
+  const [headerRow, setHeaderRow] = useState(1);
+  // Raw text of the header row box, applied on blur or Enter
+  const [headerValue, setHeaderValue] = useState("1");
+
+  // Start on the first sheet, with its first row as the header
+  useEffect(() => {
+    if (!workbook) return;
+    const first = workbook.SheetNames[0];
+    setSheetName(first);
+    setHeaderRow(getSheetRows(workbook, first).firstRow);
+  }, [workbook]);
+
+  const sheet = useMemo(
+    () => workbook && sheetName ? getSheetRows(workbook, sheetName) : { rows: [], firstRow: 1 },
+    [workbook, sheetName]
+  );
+
+  const table = useMemo(
+    () => workbook && sheetName ? sheetToTable(workbook, sheetName, headerRow) : null,
+    [workbook, sheetName, headerRow]
+  );
+
+  const lastRow = sheet.firstRow + Math.max(sheet.rows.length - 1, 0);
+
+  useEffect(() => {
+    setHeaderValue(String(headerRow));
+  }, [headerRow]);
+
+  const applyHeaderRow = () => {
+    const row = parseInt(headerValue);
+    if (isNaN(row)) {
+      setHeaderValue(String(headerRow));
+      return;
+    }
+    const clamped = Math.min(Math.max(row, sheet.firstRow), lastRow);
+    setHeaderRow(clamped);
+    // Show the clamped value even when it equals the current row
+    setHeaderValue(String(clamped));
+  };
+
+  return (
+    <Dialog open={!!workbook} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import {fileName}</DialogTitle>
+          <DialogDescription>
+            Choose the worksheet and the row that holds the column headers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Worksheet</label>
+            <select
+              className="w-full p-2 border rounded-md"
+              value={sheetName}
+              onChange={(e) => {
+                setSheetName(e.target.value);
+                setHeaderRow(getSheetRows(workbook!, e.target.value).firstRow);
+              }}
+            >
+              {workbook?.SheetNames.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Header Row</label>
+            <input
+              type="number"
+              min={sheet.firstRow}
+              max={lastRow}
+              className="w-full p-2 border rounded-md"
+              value={headerValue}
+              onChange={(e) => setHeaderValue(e.target.value)}
+              onBlur={applyHeaderRow}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") applyHeaderRow();
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="max-h-80 overflow-auto border rounded-md">
+          {table && table.headers.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {table.headers.map((header) => (
+                    <TableHead key={header} className="whitespace-nowrap">{header}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                  <TableRow key={index}>
+                    {table.headers.map((header) => (
+                      <TableCell key={header} className="whitespace-nowrap">
+                        {cellText(row[header])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="p-4 text-sm text-muted-foreground">This sheet has no data.</p>
+          )}
+        </div>
+        {table && (
+          <p className="text-sm text-muted-foreground">
+            {table.rows.length} rows, {table.headers.length} columns
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button
+            disabled={!table || !table.headers.length}
+            onClick={() => table && onImport(table)}
+          >
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+import { PDFDocument, rgb } from "pdf-lib";
+import { CertificateField, getFieldPage } from "@/lib/fields";
+import { CustomFont, createFontResolver } from "@/lib/fonts";
+import { formatText, formatValue } from "@/lib/formatters";
+import { drawField } from "@/lib/layout";
+import { resolveField } from "@/lib/rules";
+
+// Column placeholders in a field template, e.g. "{First Name}"
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+
+// Columns referenced by a field template
+export function getTemplateColumns(template: string) {
+  return Array.from(template.matchAll(PLACEHOLDER), match => match[1].trim());
+}
+
+// Substitute a row's values into a template. Spaces left behind by empty
+// columns are collapsed, and a template whose columns are all empty yields
+// an empty value so the field is skipped like an empty cell.
+export function fillTemplate(
+  template: string,
+  rowData: Record<string, any>,
+  format: (value: unknown) => string = formatValue
+) {
+  let hasPlaceholder = false;
+  let hasValue = false;
+
+  const text = template.replace(PLACEHOLDER, (_, column: string) => {
+    hasPlaceholder = true;
+    const value = format(rowData[column.trim()]);
+    if (value === "") return "";
+    hasValue = true;
+    return value;
+  });
+
+  if (hasPlaceholder && !hasValue) return "";
+  return text.replace(/ {2,}/g, " ").trim();
+}
+
+// The text a field shows for one row of data
+export function getFieldValue(field: CertificateField, rowData: Record<string, any>) {
+  const format = (value: unknown) => formatValue(value, field.format);
+  const text = field.template === undefined
+    ? format(rowData[field.name])
+    : field.kind === "text"
+      ? field.template
+      : fillTemplate(field.template, rowData, format);
+  return formatText(text, field.format);
+}
+
+// Parse color from hex to RGB, defaulting to black
+export function parseColor(hex?: string) {
+  if (!hex) return rgb(0, 0, 0);
+  const value = hex.replace('#', '');
+  return rgb(
+    parseInt(value.substring(0, 2), 16) / 255,
+    parseInt(value.substring(2, 4), 16) / 255,
+    parseInt(value.substring(4, 6), 16) / 255
+  );
+}
+
+// Fill a fresh copy of the template with one row of data. Returns the
+// unsaved document along with the names of fields whose value did not fit.
+export async function generateCertificate(
+  templateBytes: ArrayBuffer,
+  fields: CertificateField[],
+  rowData: Record<string, any>,
+  customFonts: CustomFont[]
+) {
+  const pdfDoc = await PDFDocument.load(templateBytes);
+  const getFont = createFontResolver(pdfDoc, customFonts);
+  const pages = pdfDoc.getPages();
+  const overflows: string[] = [];
+
+  for (const templateField of fields) {
+    // Apply the field's visibility and style rules for this row
+    const field = resolveField(templateField, rowData);
+    if (!field) continue;
+
+    const value = getFieldValue(field, rowData);
+
+    // Skip if no value
+    if (!value) continue;
+
+    const page = pages[getFieldPage(field, pages.length)];
+    const font = await getFont(field.styles);
+
+    // Position, wrap and shrink the value using the same coordinate model as
+    // the PDFViewer overlay
+    const fits = drawField(page, field, value, font, parseColor(field.styles?.color));
+    if (!fits) overflows.push(field.name);
+  }
+
+  return { pdfDoc, overflows };
+}
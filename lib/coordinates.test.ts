@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf.js";
+import { PDFDocument, degrees } from "pdf-lib";
+import {
+  FieldAnchor,
+  PageGeometry,
+  anchorToTopLeft,
+  displayToPdf,
+  getDisplaySize,
+  lineOrigin,
+  pageToUserSpace,
+  pdfToDisplay,
+  topLeftToAnchor,
+} from "@/lib/coordinates";
+
+const metrics = { ascent: 8, descent: 2 };
+
+describe("pdfToDisplay / displayToPdf", () => {
+  it("flips the Y axis and scales by the zoom", () => {
+    expect(pdfToDisplay({ x: 100, y: 700 }, 800, 2)).toEqual({ x: 200, y: 200 });
+    expect(pdfToDisplay({ x: 100, y: 700 }, 800, 0.5)).toEqual({ x: 50, y: 50 });
+  });
+
+  it("maps display points back to PDF points", () => {
+    expect(displayToPdf({ x: 200, y: 200 }, 800, 2)).toEqual({ x: 100, y: 700 });
+    expect(displayToPdf({ x: 50, y: 50 }, 800, 0.5)).toEqual({ x: 100, y: 700 });
+  });
+
+  it("round-trips at any zoom", () => {
+    for (const zoom of [0.25, 0.75, 1, 1.5, 2]) {
+      const point = { x: 123.5, y: 456.25 };
+      const back = displayToPdf(pdfToDisplay(point, 842, zoom), 842, zoom);
+      expect(back.x).toBeCloseTo(point.x);
+      expect(back.y).toBeCloseTo(point.y);
+    }
+  });
+});
+
+describe("anchorToTopLeft / topLeftToAnchor", () => {
+  const box = { width: 200, height: 40 };
+  const point = { x: 300, y: 500 };
+
+  it("places the box for each anchor", () => {
+    expect(anchorToTopLeft("top-left", point, box, 30)).toEqual({ x: 300, y: 500 });
+    expect(anchorToTopLeft("baseline", point, box, 30)).toEqual({ x: 300, y: 530 });
+    expect(anchorToTopLeft("center", point, box, 30)).toEqual({ x: 200, y: 520 });
+  });
+
+  it("round-trips for every anchor", () => {
+    for (const anchor of ["top-left", "baseline", "center"] as FieldAnchor[]) {
+      const topLeft = anchorToTopLeft(anchor, point, box, 30);
+      expect(topLeftToAnchor(anchor, topLeft, box, 30)).toEqual(point);
+    }
+  });
+});
+
+describe("lineOrigin", () => {
+  const topLeft = { x: 100, y: 500 };
+
+  it("aligns lines inside the box", () => {
+    expect(lineOrigin(topLeft, 200, 80, 0, "left", 10, 1, metrics).x).toBe(100);
+    expect(lineOrigin(topLeft, 200, 80, 0, "center", 10, 1, metrics).x).toBe(160);
+    expect(lineOrigin(topLeft, 200, 80, 0, "right", 10, 1, metrics).x).toBe(220);
+  });
+
+  it("steps each line down by the line height", () => {
+    // (10 * 1.5 + 8 - 2) / 2 = 10.5 below the top, then 15 per line
+    expect(lineOrigin(topLeft, 200, 80, 0, "left", 10, 1.5, metrics).y).toBe(489.5);
+    expect(lineOrigin(topLeft, 200, 80, 2, "left", 10, 1.5, metrics).y).toBe(459.5);
+  });
+});
+
+describe("pageToUserSpace", () => {
+  // pdf.js renders the page as displayed, so its viewport is the reference
+  // for where a displayed point lives in user space
+  const viewportFor = async (geometry: PageGeometry) => {
+    const doc = await PDFDocument.create();
+    const page = doc.addPage([600, 400]);
+    const { x, y, width, height } = geometry.box;
+    page.setCropBox(x, y, width, height);
+    page.setRotation(degrees(geometry.rotation));
+
+    const pdf = await pdfjs.getDocument({ data: await doc.save() }).promise;
+    const viewport = (await pdf.getPage(1)).getViewport({ scale: 1 });
+    await pdf.destroy();
+    return viewport;
+  };
+
+  for (const rotation of [0, 90, 180, 270]) {
+    it(`matches pdf.js for an offset crop box rotated ${rotation}°`, async () => {
+      const geometry = { box: { x: 10, y: 20, width: 500, height: 300 }, rotation };
+      const viewport = await viewportFor(geometry);
+      const size = getDisplaySize(geometry);
+      expect(viewport.width).toBeCloseTo(size.width);
+      expect(viewport.height).toBeCloseTo(size.height);
+
+      for (const display of [{ x: 0, y: 0 }, { x: 100, y: 50 }, { x: 250, y: 280 }]) {
+        const [x, y] = viewport.convertToPdfPoint(display.x, display.y);
+        const user = pageToUserSpace(displayToPdf(display, size.height), geometry);
+        expect(user.x).toBeCloseTo(x);
+        expect(user.y).toBeCloseTo(y);
+      }
+    });
+  }
+});
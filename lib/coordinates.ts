@@ -0,0 +1,164 @@
+import { CertificateField } from "@/lib/fields";
+
+// Shared coordinate model for the PDFViewer overlay and the exporter.
+//
+// Field positions are stored in PDF points with the origin at the bottom-left
+// of the page as it is displayed and the Y axis pointing up. That is the
+// visible (crop) box after the page's /Rotate is applied, which is what pdf.js
+// renders; pageToUserSpace maps it back to the unrotated space pdf-lib draws
+// in.
+//
+// field.x/field.y is the field's anchor point, and field.anchor says which
+// point of the field's box it is:
+//
+//   top-left  the top-left corner of the box
+//   baseline  the left end of the first line's baseline
+//   center    the middle of the box
+//
+// The box is maxWidth x maxHeight when those are set, and otherwise hugs the
+// text. Text is aligned (textAlign) inside the box, so the anchor alone
+// decides where the field sits on the page.
+
+export type FieldAnchor = "top-left" | "baseline" | "center";
+
+export const DEFAULT_ANCHOR: FieldAnchor = "top-left";
+export const DEFAULT_LINE_HEIGHT = 1.2;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface BoxSize {
+  width: number;
+  height: number;
+}
+
+// Ascent and descent of the field's font at its current size, both positive
+export interface FontMetrics {
+  ascent: number;
+  descent: number;
+}
+
+// A page's visible box in PDF user space, as pdf-lib reports it (the crop
+// box, falling back to the media box), and its /Rotate angle in degrees
+export interface PageGeometry {
+  box: { x: number; y: number; width: number; height: number };
+  rotation: number;
+}
+
+// Rotation normalized to 0, 90, 180 or 270
+const normalizeRotation = (rotation: number) => ((Math.round(rotation / 90) * 90) % 360 + 360) % 360;
+
+// Size of the page as displayed, with width and height swapped for pages
+// rotated a quarter turn
+export function getDisplaySize({ box, rotation }: PageGeometry): BoxSize {
+  const quarter = normalizeRotation(rotation) % 180 !== 0;
+  return quarter
+    ? { width: box.height, height: box.width }
+    : { width: box.width, height: box.height };
+}
+
+// Map a point in displayed page space to PDF user space. Viewers turn pages
+// clockwise by /Rotate, so this turns the point back.
+export function pageToUserSpace(point: Point, { box, rotation }: PageGeometry): Point {
+  switch (normalizeRotation(rotation)) {
+    case 90:
+      return { x: box.x + box.width - point.y, y: box.y + point.x };
+    case 180:
+      return { x: box.x + box.width - point.x, y: box.y + box.height - point.y };
+    case 270:
+      return { x: box.x + point.y, y: box.y + box.height - point.x };
+    default:
+      return { x: box.x + point.x, y: box.y + point.y };
+  }
+}
+
+// Angle, counterclockwise in degrees, that text drawn in user space needs
+// to read upright on the displayed page
+export function textRotation({ rotation }: PageGeometry) {
+  return normalizeRotation(rotation);
+}
+
+// Display coordinates: origin at top-left, Y axis goes down, `zoom` CSS
+// pixels per PDF point
+export function pdfToDisplay(point: Point, pageHeight: number, zoom = 1): Point {
+  return {
+    x: point.x * zoom,
+    y: (pageHeight - point.y) * zoom,
+  };
+}
+
+export function displayToPdf(point: Point, pageHeight: number, zoom = 1): Point {
+  return {
+    x: point.x / zoom,
+    y: pageHeight - point.y / zoom,
+  };
+}
+
+// Single-line fields use a tight line box so the box hugs the glyphs
+export function getLineHeight(field: Pick<CertificateField, "mode" | "lineHeight">) {
+  return field.mode === "paragraph" ? field.lineHeight || DEFAULT_LINE_HEIGHT : 1;
+}
+
+// Distance from the top of a line box down to its baseline. Like CSS, the
+// extra leading is split evenly above and below the glyphs.
+export function baselineOffset(fontSize: number, lineHeight: number, metrics: FontMetrics) {
+  return (fontSize * lineHeight + metrics.ascent - metrics.descent) / 2;
+}
+
+// Top-left corner of the box for a field anchored at `point`
+export function anchorToTopLeft(
+  anchor: FieldAnchor,
+  point: Point,
+  box: BoxSize,
+  baseline: number
+): Point {
+  switch (anchor) {
+    case "baseline":
+      return { x: point.x, y: point.y + baseline };
+    case "center":
+      return { x: point.x - box.width / 2, y: point.y + box.height / 2 };
+    default:
+      return { x: point.x, y: point.y };
+  }
+}
+
+// Inverse of anchorToTopLeft, used when a box has been dragged
+export function topLeftToAnchor(
+  anchor: FieldAnchor,
+  topLeft: Point,
+  box: BoxSize,
+  baseline: number
+): Point {
+  switch (anchor) {
+    case "baseline":
+      return { x: topLeft.x, y: topLeft.y - baseline };
+    case "center":
+      return { x: topLeft.x + box.width / 2, y: topLeft.y - box.height / 2 };
+    default:
+      return { x: topLeft.x, y: topLeft.y };
+  }
+}
+
+// Where the baseline of the line at `lineIndex` starts, for a line of
+// `lineWidth` aligned inside a box whose top-left corner is `topLeft`
+export function lineOrigin(
+  topLeft: Point,
+  boxWidth: number,
+  lineWidth: number,
+  lineIndex: number,
+  align: string,
+  fontSize: number,
+  lineHeight: number,
+  metrics: FontMetrics
+): Point {
+  let x = topLeft.x;
+  if (align === "center") x += (boxWidth - lineWidth) / 2;
+  else if (align === "right") x += boxWidth - lineWidth;
+
+  return {
+    x,
+    y: topLeft.y - baselineOffset(fontSize, lineHeight, metrics) - lineIndex * fontSize * lineHeight,
+  };
+}
@@ -0,0 +1,207 @@
+import * as XLSX from "xlsx";
+
+export interface DataTable {
+  headers: string[];
+  rows: Record<string, any>[];
+}
+
+// A cell's text for display and editing; JSON sources can hold nulls
+export const cellText = (value: unknown) => value === undefined || value === null ? "" : String(value);
+
+export const DATA_FILE_ACCEPT = ".xlsx,.xls,.csv,.tsv,.txt,.json";
+
+const DELIMITERS = [",", ";", "\t", "|"];
+
+// Decode text honouring a byte order mark, then falling back from strict
+// UTF-8 to Windows-1252 for files exported by older spreadsheet apps
+export function decodeText(bytes: ArrayBuffer) {
+  const view = new Uint8Array(bytes);
+
+  if (view[0] === 0xef && view[1] === 0xbb && view[2] === 0xbf) {
+    return new TextDecoder("utf-8").decode(view.subarray(3));
+  }
+  if (view[0] === 0xff && view[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(view.subarray(2));
+  }
+  if (view[0] === 0xfe && view[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(view.subarray(2));
+  }
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(view);
+  } catch {
+    return new TextDecoder("windows-1252").decode(view);
+  }
+}
+
+// Count delimiter occurrences outside quotes on each of the first lines and
+// pick the one that appears most consistently
+export function detectDelimiter(text: string) {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10);
+  if (!lines.length) return ",";
+
+  const countOutsideQuotes = (line: string, delimiter: string) => {
+    let count = 0;
+    let quoted = false;
+    for (const char of line) {
+      if (char === '"') quoted = !quoted;
+      else if (char === delimiter && !quoted) count++;
+    }
+    return count;
+  };
+
+  let best = ",";
+  let bestScore = 0;
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter));
+    const min = Math.min(...counts);
+    // Prefer delimiters present on every line, then the most frequent
+    const score = min > 0 ? min * 1000 + counts[0] : counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Parse delimited text into rows of cells, handling quoted cells with
+// embedded delimiters, doubled quotes and line breaks
+export function parseDelimited(text: string, delimiter: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim() !== ""));
+}
+
+// Turn a header row plus data rows into keyed row objects, naming blank and
+// duplicate headers so every column can still be mapped to a field
+export function toDataTable(header: unknown[], body: unknown[][]): DataTable {
+  const headers: string[] = [];
+  // Indexed loop, since sheet rows are sparse arrays with holes for blanks
+  for (let index = 0; index < header.length; index++) {
+    const name = header[index];
+    const text = (name === undefined || name === null ? "" : String(name).trim()) || `Column ${index + 1}`;
+    let unique = text;
+    for (let n = 1; headers.includes(unique); n++) unique = `${text}_${n}`;
+    headers.push(unique);
+  }
+
+  const rows = body.map(cells => {
+    const row: Record<string, any> = {};
+    headers.forEach((name, index) => {
+      const value = cells[index];
+      if (value !== undefined && value !== "") row[name] = value;
+    });
+    return row;
+  });
+
+  return { headers, rows };
+}
+
+const parseText = (text: string, delimiter?: string): DataTable => {
+  const [header = [], ...body] = parseDelimited(text, delimiter || detectDelimiter(text));
+  return toDataTable(header, body);
+};
+
+// Spreadsheet apps put copied ranges on the clipboard as tab-separated text
+export function parseClipboardText(text: string): DataTable {
+  return parseText(text, text.includes("\t") ? "\t" : undefined);
+}
+
+// JSON sources are arrays of flat objects; headers are the union of their
+// keys in first-seen order
+const parseJson = (text: string): DataTable => {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data) || !data.every(item => item && typeof item === "object" && !Array.isArray(item))) {
+    throw new Error("JSON data must be an array of objects");
+  }
+
+  const headers: string[] = [];
+  for (const item of data) {
+    for (const key of Object.keys(item)) {
+      if (!headers.includes(key)) headers.push(key);
+    }
+  }
+  return { headers, rows: data };
+};
+
+export const isWorkbookFile = (file: File) => /\.(xlsx|xls)$/i.test(file.name);
+
+export async function readWorkbook(file: File) {
+  return XLSX.read(await file.arrayBuffer(), { type: "array" });
+}
+
+// All rows of a sheet as cell arrays, keeping blank rows so indices line up
+// with the sheet. firstRow is the 1-based sheet row of rows[0].
+export function getSheetRows(workbook: XLSX.WorkBook, sheetName: string) {
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet || !worksheet["!ref"]) return { rows: [] as unknown[][], firstRow: 1 };
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, blankrows: true });
+  const firstRow = XLSX.utils.decode_range(worksheet["!ref"]).s.r + 1;
+  return { rows, firstRow };
+}
+
+// Build a table from a sheet using the given 1-based sheet row as the header;
+// rows above it (title banners and the like) are ignored
+export function sheetToTable(workbook: XLSX.WorkBook, sheetName: string, headerRow: number): DataTable {
+  const { rows, firstRow } = getSheetRows(workbook, sheetName);
+  const headerIndex = Math.max(headerRow - firstRow, 0);
+  const [header = [], ...body] = rows.slice(headerIndex);
+  return toDataTable(header, body.filter(cells => cells.some(c => c !== undefined && c !== "")));
+}
+
+// Text and JSON sources. Workbooks are opened with readWorkbook instead, so
+// a sheet and header row can be picked before building the table.
+export async function parseDataFile(file: File): Promise<DataTable> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  const bytes = await file.arrayBuffer();
+
+  switch (extension) {
+    case "json":
+      return parseJson(decodeText(bytes));
+    case "tsv":
+      return parseText(decodeText(bytes), "\t");
+    case "csv":
+    case "txt":
+      return parseText(decodeText(bytes));
+    default:
+      throw new Error(`Unsupported data file type: .${extension}`);
+  }
+}
@@ -0,0 +1,44 @@
+import type { TextStyles } from "@/components/TextStyler";
+import type { FieldAnchor } from "@/lib/coordinates";
+import type { FieldFormat } from "@/lib/formatters";
+import type { RuleCondition, StyleRule } from "@/lib/rules";
+
+export interface CertificateField {
+  id: string;
+  name: string;
+  // Content built from literal text and {Column} placeholders; when unset
+  // the field shows the column called `name`
+  template?: string;
+  // Static text fields draw their template as-is, braces included
+  kind?: "text";
+  x: number;
+  y: number;
+  // Which point of the field's box x/y refers to, see lib/coordinates
+  anchor?: FieldAnchor;
+  // Zero-based index of the template page the field is drawn on
+  page?: number;
+  styles?: TextStyles;
+  // Optional bounding box in PDF points; long values shrink to fit it
+  maxWidth?: number;
+  maxHeight?: number;
+  minFontSize?: number;
+  // Paragraph fields wrap inside maxWidth instead of staying on one line
+  mode?: "single" | "paragraph";
+  lineHeight?: number;
+  wrap?: "word" | "anywhere";
+  // How cell values are turned into text, see lib/formatters
+  format?: FieldFormat;
+  // Conditional drawing and styling per row, see lib/rules
+  visibleWhen?: RuleCondition[];
+  styleRules?: StyleRule[];
+  // Checked before generation, see lib/validation
+  required?: boolean;
+  unique?: boolean;
+}
+
+// The page a field is drawn on. Fields assigned to a page the template
+// doesn't have (after swapping in a shorter one) fall back to the first.
+export function getFieldPage(field: Pick<CertificateField, "page">, pageCount: number) {
+  const page = field.page || 0;
+  return page < pageCount ? page : 0;
+}
@@ -0,0 +1,119 @@
+import fontkit from "@pdf-lib/fontkit";
+import { PDFDocument, PDFFont, StandardFonts } from "pdf-lib";
+import type { TextStyles } from "@/components/TextStyler";
+import type { FontMetrics } from "@/lib/coordinates";
+import { getFontMetrics } from "@/lib/layout";
+
+export interface CustomFont {
+  id: string;
+  family: string;
+  fileName: string;
+  bold: boolean;
+  italic: boolean;
+  bytes: ArrayBuffer;
+}
+
+// Read an uploaded TTF/OTF file and make it available to the browser so the
+// PDFViewer overlay renders with the same face that ends up in the PDF
+export async function loadCustomFont(file: File): Promise<CustomFont> {
+  const bytes = await file.arrayBuffer();
+  const parsed = fontkit.create(new Uint8Array(bytes));
+  const family = parsed.familyName || file.name.replace(/\.(ttf|otf)$/i, "");
+  const subfamily = parsed.subfamilyName || "";
+  const bold = /bold|black|heavy/i.test(subfamily);
+  const italic = /italic|oblique/i.test(subfamily) || parsed.italicAngle !== 0;
+
+  // Register with explicit descriptors so bold/italic overlay text picks the
+  // uploaded face instead of a synthesized one
+  const face = new FontFace(family, bytes, {
+    weight: bold ? "bold" : "normal",
+    style: italic ? "italic" : "normal",
+  });
+  await face.load();
+  document.fonts.add(face);
+
+  return {
+    id: `font-${family}-${file.name}`,
+    family,
+    fileName: file.name,
+    bold,
+    italic,
+    bytes,
+  };
+}
+
+const isBold = (styles?: TextStyles) => styles?.fontWeight === "bold";
+const isItalic = (styles?: TextStyles) => styles?.fontStyle === "italic";
+
+// Fallbacks for the built-in families, since PDF standard fonts are limited.
+// Variants are indexed as [regular, bold, italic, bold italic].
+const standardVariants: Record<string, StandardFonts[]> = {
+  "Times New Roman": [
+    StandardFonts.TimesRoman,
+    StandardFonts.TimesRomanBold,
+    StandardFonts.TimesRomanItalic,
+    StandardFonts.TimesRomanBoldItalic,
+  ],
+  "Courier New": [
+    StandardFonts.Courier,
+    StandardFonts.CourierBold,
+    StandardFonts.CourierOblique,
+    StandardFonts.CourierBoldOblique,
+  ],
+  Helvetica: [
+    StandardFonts.Helvetica,
+    StandardFonts.HelveticaBold,
+    StandardFonts.HelveticaOblique,
+    StandardFonts.HelveticaBoldOblique,
+  ],
+};
+
+const getStandardFont = (styles?: TextStyles) => {
+  const variants = standardVariants[styles?.fontFamily || ""] || standardVariants.Helvetica;
+  return variants[(isBold(styles) ? 1 : 0) + (isItalic(styles) ? 2 : 0)];
+};
+
+// Pick the uploaded face closest to the requested weight and style, preferring
+// an exact match, then the right weight, then any face of the family
+const getCustomFont = (customFonts: CustomFont[], styles?: TextStyles) => {
+  const faces = customFonts.filter(f => f.family === styles?.fontFamily);
+  const bold = isBold(styles);
+  const italic = isItalic(styles);
+  return (
+    faces.find(f => f.bold === bold && f.italic === italic) ||
+    faces.find(f => f.bold === bold) ||
+    faces.find(f => !f.bold && !f.italic) ||
+    faces[0]
+  );
+};
+
+// Returns a resolver that embeds each font at most once per document. Custom
+// fonts are subset so only the glyphs actually drawn end up in the output.
+export function createFontResolver(pdfDoc: PDFDocument, customFonts: CustomFont[]) {
+  pdfDoc.registerFontkit(fontkit);
+  const cache = new Map<string, Promise<PDFFont>>();
+
+  return (styles?: TextStyles): Promise<PDFFont> => {
+    const custom = getCustomFont(customFonts, styles);
+    const key = custom ? custom.id : getStandardFont(styles);
+
+    let font = cache.get(key);
+    if (!font) {
+      font = custom
+        ? pdfDoc.embedFont(custom.bytes, { subset: true })
+        : pdfDoc.embedFont(getStandardFont(styles));
+      cache.set(key, font);
+    }
+    return font;
+  };
+}
+
+// Returns a resolver for the metrics of the font the exporter would embed for
+// the given styles, per point of font size. The overlay places its baselines
+// with these so they match the generated PDF, whatever the browser's own
+// metrics for the face it renders are.
+export function createMetricsResolver(customFonts: CustomFont[]) {
+  const getFont = PDFDocument.create().then(pdfDoc => createFontResolver(pdfDoc, customFonts));
+  return async (styles?: TextStyles): Promise<FontMetrics> =>
+    getFontMetrics(await (await getFont)(styles), 1);
+}
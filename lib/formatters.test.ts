@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { formatValue, toDate, toNumber } from "@/lib/formatters";
+
+describe("toNumber", () => {
+  it("reads the locale's group and decimal separators", () => {
+    expect(toNumber("1,234.5", "en-US")).toBe(1234.5);
+    expect(toNumber("1.234,5", "de-DE")).toBe(1234.5);
+    expect(toNumber("89,5", "de-DE")).toBe(89.5);
+    expect(toNumber("1 234,5", "fr-FR")).toBe(1234.5);
+  });
+
+  it("rejects incomplete digit groups", () => {
+    expect(toNumber("1,5", "en-US")).toBeNull();
+    expect(toNumber("12,34", "en-US")).toBeNull();
+  });
+
+  it("tries both number styles without a locale", () => {
+    expect(toNumber("1,500")).toBe(1500);
+    expect(toNumber("89,5")).toBe(89.5);
+    expect(toNumber("-0.25")).toBe(-0.25);
+  });
+
+  it("returns null for blank and non-numeric text", () => {
+    expect(toNumber("")).toBeNull();
+    expect(toNumber("   ")).toBeNull();
+    expect(toNumber("12 apples")).toBeNull();
+  });
+});
+
+describe("toDate", () => {
+  it("reads explicit date formats", () => {
+    expect(toDate("2024-06-30")).toEqual(new Date(2024, 5, 30));
+    expect(toDate("6/30/2024", "en-US")).toEqual(new Date(2024, 5, 30));
+    expect(toDate("30/06/2024", "en-GB")).toEqual(new Date(2024, 5, 30));
+    expect(toDate("30.06.2024", "de-DE")).toEqual(new Date(2024, 5, 30));
+  });
+
+  it("leaves other text alone", () => {
+    expect(toDate("A-1")).toBeNull();
+    expect(toDate("Room 12")).toBeNull();
+    expect(toDate("Class of 2020")).toBeNull();
+    expect(toDate("31/02/2024", "en-GB")).toBeNull();
+  });
+});
+
+describe("formatValue", () => {
+  it("formats decimal-comma numbers in their locale", () => {
+    expect(formatValue("1,5", { type: "number", locale: "de-DE" })).toBe("1,5");
+    expect(formatValue("1.234,5", { type: "number", locale: "de-DE", decimals: 2 })).toBe("1.234,50");
+  });
+
+  it("shows unreadable values as they are", () => {
+    expect(formatValue("  ", { type: "number" })).toBe("  ");
+    expect(formatValue("Room 12", { type: "date" })).toBe("Room 12");
+  });
+});
@@ -0,0 +1,218 @@
+import { format as formatDate, isValid, parseISO } from "date-fns";
+import { de, enGB, enUS, es, fr, it, nl, pl, pt, sv } from "date-fns/locale";
+
+export type FormatType = "text" | "date" | "number" | "currency" | "percent" | "ordinal";
+export type TextCase = "upper" | "lower" | "title";
+
+// How a field turns raw cell values into text. Type-specific formatting is
+// applied to each column value; case, trimming and the fallback apply to
+// the field's final text.
+export interface FieldFormat {
+  type?: FormatType;
+  // date-fns pattern, e.g. "d MMMM yyyy"
+  datePattern?: string;
+  locale?: string;
+  decimals?: number;
+  // ISO 4217 code for currency values
+  currency?: string;
+  textCase?: TextCase;
+  trim?: boolean;
+  // Shown when the field would otherwise be empty
+  fallback?: string;
+}
+
+export const DEFAULT_DATE_PATTERN = "d MMMM yyyy";
+export const DEFAULT_LOCALE = "en-US";
+export const DEFAULT_CURRENCY = "USD";
+
+export const LOCALES = {
+  "en-US": { label: "English (US)", dateLocale: enUS },
+  "en-GB": { label: "English (UK)", dateLocale: enGB },
+  "de-DE": { label: "German", dateLocale: de },
+  "fr-FR": { label: "French", dateLocale: fr },
+  "es-ES": { label: "Spanish", dateLocale: es },
+  "it-IT": { label: "Italian", dateLocale: it },
+  "nl-NL": { label: "Dutch", dateLocale: nl },
+  "pt-PT": { label: "Portuguese", dateLocale: pt },
+  "pl-PL": { label: "Polish", dateLocale: pl },
+  "sv-SE": { label: "Swedish", dateLocale: sv },
+};
+
+const getLocale = (format: FieldFormat) =>
+  format.locale && format.locale in LOCALES ? format.locale as keyof typeof LOCALES : DEFAULT_LOCALE;
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === "";
+
+// Spreadsheets store dates as days since 1899-12-30. Build the date from its
+// calendar parts so it doesn't shift with the local time zone.
+const fromSerial = (serial: number) => {
+  const utc = new Date(Math.round((serial - 25569) * 86400000));
+  return new Date(
+    utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(),
+    utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds()
+  );
+};
+
+// A calendar date, or null when the parts don't name a real day
+const fromParts = (year: number, month: number, day: number) => {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+    ? date
+    : null;
+};
+
+// Reads spreadsheet serials, ISO dates and numeric dates with a four-digit
+// year. Slashed dates are month first in US English and day first elsewhere;
+// dotted and dashed ones are always day first. Anything else is not a date.
+export function toDate(value: unknown, locale: string = DEFAULT_LOCALE) {
+  if (value instanceof Date) return isValid(value) ? value : null;
+  if (typeof value === "number") return fromSerial(value);
+
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return fromSerial(parseFloat(text));
+
+  const iso = parseISO(text);
+  if (isValid(iso)) return iso;
+
+  const yearFirst = text.match(/^(\d{4})([./])(\d{1,2})\2(\d{1,2})$/);
+  if (yearFirst) return fromParts(+yearFirst[1], +yearFirst[3], +yearFirst[4]);
+
+  const yearLast = text.match(/^(\d{1,2})([./-])(\d{1,2})\2(\d{4})$/);
+  if (yearLast) {
+    const monthFirst = yearLast[2] === "/" && locale === "en-US";
+    const [month, day] = monthFirst ? [yearLast[1], yearLast[3]] : [yearLast[3], yearLast[1]];
+    return fromParts(+yearLast[4], +month, +day);
+  }
+  return null;
+}
+
+const separatorCache = new Map<string, { group: string; decimal: string }>();
+
+// The locale's digit group and decimal separators, e.g. "." and "," in German
+const getSeparators = (locale: string) => {
+  let separators = separatorCache.get(locale);
+  if (!separators) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+    separators = {
+      group: parts.find(part => part.type === "group")?.value || ",",
+      decimal: parts.find(part => part.type === "decimal")?.value || ".",
+    };
+    separatorCache.set(locale, separators);
+  }
+  return separators;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Parse a number written the way the locale writes them. Digit groups must
+// be complete, so "1,5" is not read as 15 in English.
+const parseLocaleNumber = (text: string, locale: string) => {
+  const { group, decimal } = getSeparators(locale);
+  // Locales grouping with a (narrow) no-break space accept any space
+  const spaced = /\s/.test(group);
+  const normalized = spaced ? text.replace(/\s/g, " ") : text;
+  const groupPattern = spaced ? " " : escapeRegExp(group);
+
+  const match = normalized.match(new RegExp(
+    `^([-+]?)(\\d{1,3}(?:${groupPattern}\\d{3})+|\\d+)?(?:${escapeRegExp(decimal)}(\\d+))?$`
+  ));
+  if (!match || (!match[2] && !match[3])) return null;
+
+  const whole = (match[2] || "0").split(spaced ? " " : group).join("");
+  return Number(`${match[1]}${whole}.${match[3] || "0"}`);
+};
+
+// Reads numbers in the given locale. Without one, English is tried first and
+// then decimal commas, for data whose locale isn't known.
+export function toNumber(value: unknown, locale?: string) {
+  if (typeof value === "number") return value;
+
+  const text = String(value).trim();
+  if (!text) return null;
+  if (locale) return parseLocaleNumber(text, locale);
+  return parseLocaleNumber(text, DEFAULT_LOCALE) ?? parseLocaleNumber(text, "de-DE");
+}
+
+// English ordinal suffixes: 1st, 2nd, 3rd, 4th, 11th, 21st...
+const ORDINAL_SUFFIXES: Record<string, string> = { one: "st", two: "nd", few: "rd", other: "th" };
+const ordinalRules = new Intl.PluralRules("en-US", { type: "ordinal" });
+
+export function toOrdinal(number: number) {
+  const whole = Math.round(number);
+  return `${whole}${ORDINAL_SUFFIXES[ordinalRules.select(whole)]}`;
+}
+
+// Format a single cell value. Values that can't be read as the requested
+// type are shown as they are rather than dropped.
+export function formatValue(value: unknown, format: FieldFormat = {}) {
+  if (isEmpty(value)) return "";
+  const raw = String(value);
+  const locale = getLocale(format);
+
+  switch (format.type) {
+    case "date": {
+      const date = toDate(value, locale);
+      if (!date) return raw;
+      try {
+        return formatDate(date, format.datePattern || DEFAULT_DATE_PATTERN, {
+          locale: LOCALES[locale].dateLocale
+        });
+      } catch {
+        // Invalid pattern while it is still being typed
+        return raw;
+      }
+    }
+    case "number":
+    case "currency":
+    case "percent": {
+      const number = toNumber(value, locale);
+      if (number === null) return raw;
+      const digits = format.decimals !== undefined
+        ? { minimumFractionDigits: format.decimals, maximumFractionDigits: format.decimals }
+        : {};
+      try {
+        return new Intl.NumberFormat(locale, {
+          ...digits,
+          style: format.type === "number" ? "decimal" : format.type,
+          currency: format.type === "currency" ? format.currency || DEFAULT_CURRENCY : undefined,
+        }).format(number);
+      } catch {
+        // Unknown currency code
+        return raw;
+      }
+    }
+    case "ordinal": {
+      const number = toNumber(value, locale);
+      return number === null ? raw : toOrdinal(number);
+    }
+    default:
+      return raw;
+  }
+}
+
+const toTitleCase = (text: string, locale: string) =>
+  text
+    .toLocaleLowerCase(locale)
+    .replace(/(^|[\s-])(\S)/g, (_, separator: string, letter: string) =>
+      separator + letter.toLocaleUpperCase(locale)
+    );
+
+// Apply the text-level options to a field's complete value
+export function formatText(text: string, format: FieldFormat = {}) {
+  const locale = getLocale(format);
+  let result = format.trim ? text.replace(/\s+/g, " ").trim() : text;
+
+  switch (format.textCase) {
+    case "upper":
+      result = result.toLocaleUpperCase(locale);
+      break;
+    case "lower":
+      result = result.toLocaleLowerCase(locale);
+      break;
+    case "title":
+      result = toTitleCase(result, locale);
+      break;
+  }
+
+  return result === "" && format.fallback ? format.fallback : result;
+}
@@ -0,0 +1,162 @@
+import { CertificateField } from "@/lib/fields";
+import { CustomFont } from "@/lib/fonts";
+import type { ImpositionSettings } from "@/lib/imposition";
+
+// Certificate generation runs in a pool of web workers (see
+// generation.worker.ts) so large batches don't freeze the editor. Each
+// worker receives the template, layout and fonts once, then fills rows one
+// at a time as they are handed out.
+
+export interface GenerationSetup {
+  templateBytes: ArrayBuffer;
+  fields: CertificateField[];
+  customFonts: CustomFont[];
+}
+
+export interface MergeOptions {
+  separatorPages: boolean;
+  bookmarks: boolean;
+  imposition?: ImpositionSettings;
+}
+
+export type WorkerRequest =
+  | { type: "setup"; setup: GenerationSetup }
+  | { type: "generate"; row: number; rowData: Record<string, any> }
+  | { type: "merge"; certificates: { bytes: Uint8Array; title: string }[]; options: MergeOptions };
+
+export type WorkerResponse =
+  | { type: "generated"; row: number; bytes: Uint8Array; overflows: string[] }
+  | { type: "merged"; bytes: Uint8Array }
+  | { type: "error"; row?: number; message: string };
+
+export interface GeneratedCertificate {
+  row: number;
+  bytes: Uint8Array;
+  overflows: string[];
+}
+
+export interface GenerationProgress {
+  done: number;
+  total: number;
+  // Index of the row that just finished
+  row: number;
+}
+
+const MAX_WORKERS = 4;
+
+const createWorker = () => new Worker(new URL("./generation.worker.ts", import.meta.url));
+
+const post = (worker: Worker, request: WorkerRequest, transfer: Transferable[] = []) =>
+  worker.postMessage(request, transfer);
+
+// Leave a core for the page itself, and never start more workers than rows
+const getPoolSize = (rowCount: number) => {
+  const cores = typeof navigator !== "undefined" && navigator.hardwareConcurrency || 2;
+  return Math.max(1, Math.min(cores - 1, MAX_WORKERS, rowCount));
+};
+
+export interface GenerationResult {
+  certificates: GeneratedCertificate[];
+  // Set when the run was aborted; certificates then holds the rows that
+  // were already done
+  cancelled: boolean;
+}
+
+// Fill every given row in the worker pool. Results come back in the order of
+// `rows`, whichever worker finished first. Aborting the signal stops the
+// workers straight away and resolves with the rows finished so far.
+export function generateInWorkers(
+  setup: GenerationSetup,
+  rows: { index: number; data: Record<string, any> }[],
+  onProgress?: (progress: GenerationProgress) => void,
+  signal?: AbortSignal
+) {
+  return new Promise<GenerationResult>((resolve, reject) => {
+    const results = new Map<number, GeneratedCertificate>();
+    const workers = Array.from({ length: getPoolSize(rows.length) }, createWorker);
+    let next = 0;
+    let finished = false;
+
+    const finish = (error?: Error) => {
+      if (finished) return;
+      finished = true;
+      workers.forEach(worker => worker.terminate());
+      signal?.removeEventListener("abort", handleAbort);
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve({
+        certificates: rows.filter(row => results.has(row.index)).map(row => results.get(row.index)!),
+        cancelled: results.size < rows.length,
+      });
+    };
+
+    const handleAbort = () => finish();
+    if (signal?.aborted) {
+      finish();
+      return;
+    }
+    signal?.addEventListener("abort", handleAbort);
+
+    const dispatch = (worker: Worker) => {
+      if (next >= rows.length) return;
+      const row = rows[next++];
+      post(worker, { type: "generate", row: row.index, rowData: row.data });
+    };
+
+    if (!rows.length) {
+      finish();
+      return;
+    }
+
+    workers.forEach(worker => {
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const message = event.data;
+        if (message.type === "error") {
+          const where = message.row !== undefined ? ` on row ${message.row + 1}` : "";
+          finish(new Error(`Generation failed${where}: ${message.message}`));
+          return;
+        }
+        if (message.type !== "generated") return;
+
+        results.set(message.row, { row: message.row, bytes: message.bytes, overflows: message.overflows });
+        onProgress?.({ done: results.size, total: rows.length, row: message.row });
+        if (results.size === rows.length) finish();
+        else dispatch(worker);
+      };
+      worker.onerror = (event) => finish(new Error(event.message || "Generation worker failed"));
+
+      post(worker, { type: "setup", setup });
+      dispatch(worker);
+    });
+  });
+}
+
+// Combine generated certificates into one PDF in a worker, in the given
+// order. The certificate buffers are transferred and unusable afterwards.
+export function mergeInWorker(
+  certificates: { bytes: Uint8Array; title: string }[],
+  options: MergeOptions
+) {
+  return new Promise<Uint8Array>((resolve, reject) => {
+    const worker = createWorker();
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      worker.terminate();
+      if (message.type === "merged") resolve(message.bytes);
+      else reject(new Error(message.type === "error" ? message.message : "Unexpected worker response"));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Merge worker failed"));
+    };
+
+    post(
+      worker,
+      { type: "merge", certificates, options },
+      certificates.map(certificate => certificate.bytes.buffer)
+    );
+  });
+}
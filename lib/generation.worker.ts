@@ -0,0 +1,74 @@
+import { PDFDocument } from "pdf-lib";
+import { generateCertificate } from "@/lib/certificate";
+import { imposePages } from "@/lib/imposition";
+import { OutlineEntry, addOutline, appendCertificate } from "@/lib/output";
+import type { GenerationSetup, MergeOptions, WorkerRequest, WorkerResponse } from "@/lib/generation";
+
+// Worker side of lib/generation. Keeps the setup from the first message and
+// answers each request with exactly one response.
+
+let setup: GenerationSetup | null = null;
+
+const respond = (response: WorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+const generate = async (row: number, rowData: Record<string, any>) => {
+  if (!setup) throw new Error("Worker received a row before its setup");
+
+  const { pdfDoc, overflows } = await generateCertificate(
+    setup.templateBytes,
+    setup.fields,
+    rowData,
+    setup.customFonts
+  );
+  const bytes = await pdfDoc.save();
+  respond({ type: "generated", row, bytes, overflows }, [bytes.buffer]);
+};
+
+const merge = async (certificates: { bytes: Uint8Array; title: string }[], options: MergeOptions) => {
+  const merged = await PDFDocument.create();
+  const outline: OutlineEntry[] = [];
+
+  for (const certificate of certificates) {
+    // Separator pages would waste grid slots on imposed sheets
+    const separator = options.separatorPages && !options.imposition;
+    const pageIndex = await appendCertificate(merged, await PDFDocument.load(certificate.bytes), separator);
+    outline.push({ title: certificate.title, pageIndex });
+  }
+
+  const imposition = options.imposition;
+  const document = imposition ? await imposePages(merged, imposition) : merged;
+  if (options.bookmarks) {
+    // Bookmarks point at the sheet each certificate was placed on
+    addOutline(document, imposition
+      ? outline.map(entry => ({ ...entry, pageIndex: Math.floor(entry.pageIndex / imposition.perSheet) }))
+      : outline);
+  }
+
+  const bytes = await document.save();
+  respond({ type: "merged", bytes }, [bytes.buffer]);
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case "setup":
+        setup = request.setup;
+        break;
+      case "generate":
+        await generate(request.row, request.rowData);
+        break;
+      case "merge":
+        await merge(request.certificates, request.options);
+        break;
+    }
+  } catch (error) {
+    respond({
+      type: "error",
+      row: request.type === "generate" ? request.row : undefined,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,151 @@
+import { PDFDocument, PDFPage, PageSizes, rgb } from "pdf-lib";
+
+// Printing several certificates per sheet: the pages of the merged document
+// are embedded into a grid on larger sheets, with optional bleed around each
+// one and crop marks in the sheet margin
+
+export type SheetSize = "A4" | "Letter";
+
+export interface ImpositionSettings {
+  perSheet: number;
+  sheetSize: SheetSize;
+  cropMarks: boolean;
+  // Extra artwork kept around each certificate's trim box, in millimetres
+  bleed: number;
+}
+
+export const SHEET_SIZES: Record<SheetSize, [number, number]> = {
+  A4: PageSizes.A4,
+  Letter: PageSizes.Letter,
+};
+
+export const PER_SHEET_OPTIONS = [2, 4, 8];
+
+const MM = 72 / 25.4;
+const MARK_LENGTH = 5 * MM;
+const MARK_OFFSET = 3 * MM;
+
+const mmToPoints = (mm: number) => mm * MM;
+
+interface Grid {
+  sheet: [number, number];
+  cols: number;
+  rows: number;
+  scale: number;
+}
+
+// Try every column/row split in both sheet orientations and keep the one
+// that needs the least shrinking. Certificates are never scaled up.
+const chooseGrid = (
+  perSheet: number,
+  cell: { width: number; height: number },
+  sheetSize: [number, number],
+  margin: number
+): Grid => {
+  const [width, height] = sheetSize;
+  let best: Grid | null = null;
+
+  for (const sheet of [[width, height], [height, width]] as [number, number][]) {
+    for (let cols = 1; cols <= perSheet; cols++) {
+      if (perSheet % cols) continue;
+      const rows = perSheet / cols;
+      const scale = Math.min(
+        1,
+        (sheet[0] - 2 * margin) / (cols * cell.width),
+        (sheet[1] - 2 * margin) / (rows * cell.height)
+      );
+      if (!best || scale > best.scale) best = { sheet, cols, rows, scale };
+    }
+  }
+
+  return best!;
+};
+
+const drawCropMarks = (
+  sheet: PDFPage,
+  grid: Grid,
+  origin: { x: number; y: number },
+  cell: { width: number; height: number },
+  trim: { width: number; height: number },
+  bleed: number
+) => {
+  const { scale } = grid;
+  const gridWidth = grid.cols * cell.width * scale;
+  const gridHeight = grid.rows * cell.height * scale;
+  const line = { thickness: 0.25, color: rgb(0, 0, 0) };
+
+  // Vertical ticks above and below the grid at each column's trim edges
+  for (let col = 0; col < grid.cols; col++) {
+    const left = origin.x + (col * cell.width + bleed) * scale;
+    for (const x of [left, left + trim.width * scale]) {
+      sheet.drawLine({ ...line, start: { x, y: origin.y - MARK_OFFSET }, end: { x, y: origin.y - MARK_OFFSET - MARK_LENGTH } });
+      const top = origin.y + gridHeight;
+      sheet.drawLine({ ...line, start: { x, y: top + MARK_OFFSET }, end: { x, y: top + MARK_OFFSET + MARK_LENGTH } });
+    }
+  }
+
+  // Horizontal ticks left and right of the grid at each row's trim edges
+  for (let row = 0; row < grid.rows; row++) {
+    const bottom = origin.y + (row * cell.height + bleed) * scale;
+    for (const y of [bottom, bottom + trim.height * scale]) {
+      sheet.drawLine({ ...line, start: { x: origin.x - MARK_OFFSET, y }, end: { x: origin.x - MARK_OFFSET - MARK_LENGTH, y } });
+      const right = origin.x + gridWidth;
+      sheet.drawLine({ ...line, start: { x: right + MARK_OFFSET, y }, end: { x: right + MARK_OFFSET + MARK_LENGTH, y } });
+    }
+  }
+};
+
+// Lay every page of the source document out on new sheets, left to right and
+// top to bottom. The grid is sized from the first page. Returns the sheets
+// document; source page i ends up on sheet Math.floor(i / perSheet).
+export async function imposePages(source: PDFDocument, settings: ImpositionSettings) {
+  const sheets = await PDFDocument.create();
+  const pages = source.getPages();
+  if (!pages.length) return sheets;
+
+  const bleed = mmToPoints(settings.bleed);
+  // Trim boxes fall back to the media box for pages that don't set one
+  const first = pages[0].getTrimBox();
+  const trim = { width: first.width, height: first.height };
+  const cell = { width: trim.width + 2 * bleed, height: trim.height + 2 * bleed };
+  const margin = settings.cropMarks ? MARK_OFFSET + MARK_LENGTH : 0;
+  const grid = chooseGrid(settings.perSheet, cell, SHEET_SIZES[settings.sheetSize], margin);
+
+  // Centre the grid on the sheet
+  const origin = {
+    x: (grid.sheet[0] - grid.cols * cell.width * grid.scale) / 2,
+    y: (grid.sheet[1] - grid.rows * cell.height * grid.scale) / 2,
+  };
+
+  // Embed each page with its bleed area around the trim box
+  const embedded = await sheets.embedPages(pages, pages.map(page => {
+    const box = page.getTrimBox();
+    return {
+      left: box.x - bleed,
+      bottom: box.y - bleed,
+      right: box.x + box.width + bleed,
+      top: box.y + box.height + bleed,
+    };
+  }));
+
+  let sheet: PDFPage | null = null;
+  embedded.forEach((page, index) => {
+    const slot = index % settings.perSheet;
+    if (slot === 0) {
+      sheet = sheets.addPage(grid.sheet);
+      if (settings.cropMarks) drawCropMarks(sheet, grid, origin, cell, trim, bleed);
+    }
+
+    // Fill rows from the top of the sheet down
+    const col = slot % grid.cols;
+    const row = grid.rows - 1 - Math.floor(slot / grid.cols);
+    sheet!.drawPage(page, {
+      x: origin.x + col * cell.width * grid.scale,
+      y: origin.y + row * cell.height * grid.scale,
+      xScale: grid.scale,
+      yScale: grid.scale,
+    });
+  });
+
+  return sheets;
+}
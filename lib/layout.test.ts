@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+import { PDFDocument, StandardFonts, degrees, rgb } from "pdf-lib";
+import type { TextStyles } from "@/components/TextStyler";
+import { baselineOffset } from "@/lib/coordinates";
+import { CertificateField } from "@/lib/fields";
+import { createMetricsResolver } from "@/lib/fonts";
+import { drawField } from "@/lib/layout";
+
+const styles = { fontFamily: "Arial", fontSize: 36 } as TextStyles;
+
+const field: CertificateField = {
+  id: "field-Name",
+  name: "Name",
+  x: 100,
+  y: 700,
+  styles,
+};
+
+// Baseline positions passed to drawText for one field
+const drawnOrigins = async (field: CertificateField, setup?: (page: ReturnType<PDFDocument["addPage"]>) => void) => {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([600, 800]);
+  setup?.(page);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const drawText = vi.spyOn(page, "drawText");
+  drawField(page, field, "Jane Doe", font, rgb(0, 0, 0));
+  return drawText.mock.calls.map(([, options]) => options!);
+};
+
+describe("drawField", () => {
+  it("puts the baseline where the overlay computes it", async () => {
+    // The overlay scales the resolver's per-point metrics by the font size
+    const unit = await createMetricsResolver([])(styles);
+    const overlayBaseline = baselineOffset(36, 1, { ascent: unit.ascent * 36, descent: unit.descent * 36 });
+
+    const [origin] = await drawnOrigins(field);
+    expect(origin.x).toBeCloseTo(100);
+    expect(origin.y).toBeCloseTo(700 - overlayBaseline);
+    // Helvetica: (1 + 0.718 - 0.207) / 2 of the size below the box top
+    expect(origin.y).toBeCloseTo(700 - 0.7555 * 36);
+  });
+
+  it("draws upright text on rotated pages with offset crop boxes", async () => {
+    const [upright] = await drawnOrigins(field);
+    const [rotated] = await drawnOrigins(field, page => {
+      page.setCropBox(50, 40, 500, 700);
+      page.setRotation(degrees(90));
+    });
+
+    // Displayed point (u, v) sits at (x + width - v, y + u) in user space
+    expect(rotated.x).toBeCloseTo(50 + 500 - upright.y!);
+    expect(rotated.y).toBeCloseTo(40 + upright.x!);
+    expect(rotated.rotate).toEqual(degrees(90));
+  });
+});
@@ -0,0 +1,234 @@
+import { Color, PDFFont, PDFPage, degrees } from "pdf-lib";
+import { CertificateField } from "@/lib/fields";
+import {
+  DEFAULT_ANCHOR,
+  DEFAULT_LINE_HEIGHT,
+  FontMetrics,
+  PageGeometry,
+  Point,
+  anchorToTopLeft,
+  baselineOffset,
+  getLineHeight,
+  lineOrigin,
+  pageToUserSpace,
+  textRotation,
+} from "@/lib/coordinates";
+
+export const DEFAULT_MIN_FONT_SIZE = 6;
+
+// Shrink the font size until the text fits the field's box, but never below
+// its minimum. Width and height both scale linearly with the size, so the
+// largest size that fits can be computed directly.
+export function fitFontSize(
+  font: PDFFont,
+  text: string,
+  fontSize: number,
+  field: Pick<CertificateField, "maxWidth" | "maxHeight" | "minFontSize">
+) {
+  let size = fontSize;
+
+  if (field.maxWidth) {
+    const width = font.widthOfTextAtSize(text, fontSize);
+    if (width > field.maxWidth) size = Math.min(size, fontSize * field.maxWidth / width);
+  }
+  if (field.maxHeight) {
+    const height = font.heightAtSize(fontSize);
+    if (height > field.maxHeight) size = Math.min(size, fontSize * field.maxHeight / height);
+  }
+
+  const minSize = Math.min(field.minFontSize || DEFAULT_MIN_FONT_SIZE, fontSize);
+  return {
+    size: Math.max(size, minSize),
+    fits: size >= minSize,
+  };
+}
+
+// Split a long word into chunks that each fit the given width
+const breakWord = (font: PDFFont, word: string, size: number, width: number) => {
+  const chunks: string[] = [];
+  let chunk = "";
+  for (const char of Array.from(word)) {
+    if (chunk && font.widthOfTextAtSize(chunk + char, size) > width) {
+      chunks.push(chunk);
+      chunk = char;
+    } else {
+      chunk += char;
+    }
+  }
+  if (chunk) chunks.push(chunk);
+  return chunks;
+};
+
+export interface WrappedLine {
+  text: string;
+  // Last line of a paragraph, which is never stretched when justifying
+  last: boolean;
+}
+
+// Greedy word wrap. Explicit line breaks in the value are kept, and with
+// "anywhere" a word wider than the box is broken across lines.
+export function wrapText(
+  font: PDFFont,
+  text: string,
+  size: number,
+  width: number,
+  wrap: CertificateField["wrap"] = "word"
+) {
+  const lines: WrappedLine[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    let line = "";
+
+    for (const word of words) {
+      const pieces = wrap === "anywhere" && font.widthOfTextAtSize(word, size) > width
+        ? breakWord(font, word, size, width)
+        : [word];
+
+      for (const piece of pieces) {
+        const candidate = line ? `${line} ${piece}` : piece;
+        if (line && font.widthOfTextAtSize(candidate, size) > width) {
+          lines.push({ text: line, last: false });
+          line = piece;
+        } else {
+          line = candidate;
+        }
+      }
+    }
+    lines.push({ text: line, last: true });
+  }
+
+  return lines;
+}
+
+// Wrap a paragraph field, shrinking it in half-point steps while any line is
+// wider than the box or the block is taller than maxHeight
+export function layoutParagraph(
+  font: PDFFont,
+  text: string,
+  fontSize: number,
+  field: Pick<CertificateField, "maxWidth" | "maxHeight" | "minFontSize" | "lineHeight" | "wrap">
+) {
+  const width = field.maxWidth || Infinity;
+  const lineHeight = field.lineHeight || DEFAULT_LINE_HEIGHT;
+  const minSize = Math.min(field.minFontSize || DEFAULT_MIN_FONT_SIZE, fontSize);
+
+  const measure = (size: number) => {
+    const lines = wrapText(font, text, size, width, field.wrap);
+    const fits =
+      lines.every(line => font.widthOfTextAtSize(line.text, size) <= width) &&
+      (!field.maxHeight || lines.length * size * lineHeight <= field.maxHeight);
+    return { size, lines, fits };
+  };
+
+  let result = measure(fontSize);
+  while (!result.fits && result.size > minSize) {
+    result = measure(Math.max(result.size - 0.5, minSize));
+  }
+  return result;
+}
+
+// Font metrics at the given size, in the shape the coordinate model expects
+export function getFontMetrics(font: PDFFont, size: number): FontMetrics {
+  const ascent = font.heightAtSize(size, { descender: false });
+  return { ascent, descent: font.heightAtSize(size) - ascent };
+}
+
+// The page's visible box and rotation, see lib/coordinates
+export function getPageGeometry(page: PDFPage): PageGeometry {
+  return { box: page.getCropBox(), rotation: page.getRotation().angle };
+}
+
+interface DrawTextOptions {
+  x: number;
+  y: number;
+  size: number;
+  font: PDFFont;
+  color: Color;
+}
+
+// Draw text whose origin is given in displayed page space, turned so it
+// reads upright on rotated pages
+export function drawText(page: PDFPage, text: string, options: DrawTextOptions, geometry = getPageGeometry(page)) {
+  page.drawText(text, {
+    ...options,
+    ...pageToUserSpace(options, geometry),
+    rotate: degrees(textRotation(geometry)),
+  });
+}
+
+// Draw the underline just below the baseline, scaled with the font size
+export function drawUnderline(page: PDFPage, width: number, options: DrawTextOptions, geometry = getPageGeometry(page)) {
+  const y = options.y - options.size * 0.12;
+  const toUser = (point: Point) => pageToUserSpace(point, geometry);
+  page.drawLine({
+    start: toUser({ x: options.x, y }),
+    end: toUser({ x: options.x + width, y }),
+    thickness: Math.max(options.size / 16, 0.5),
+    color: options.color,
+  });
+}
+
+// Size and break one field's value. Single-line fields shrink to fit their
+// box; paragraph fields wrap inside it. `fits` is false when the value still
+// overflows at the minimum font size.
+export function layoutField(field: CertificateField, value: string, font: PDFFont) {
+  const fontSize = field.styles?.fontSize || 16;
+  return field.mode === "paragraph"
+    ? layoutParagraph(font, value, fontSize, field)
+    : { ...fitFontSize(font, value, fontSize, field), lines: [{ text: value, last: true }] };
+}
+
+// Lay out and draw one field's value on the page. Returns false when the
+// value overflows its box, see layoutField.
+export function drawField(
+  page: PDFPage,
+  field: CertificateField,
+  value: string,
+  font: PDFFont,
+  color: Color
+) {
+  const align = field.styles?.textAlign || "left";
+  const underline = field.styles?.textDecoration === "underline";
+
+  const { size, lines, fits } = layoutField(field, value, font);
+
+  const lineHeight = getLineHeight(field);
+  const metrics = getFontMetrics(font, size);
+  const geometry = getPageGeometry(page);
+  const box = {
+    width: field.maxWidth || Math.max(...lines.map(l => font.widthOfTextAtSize(l.text, size))),
+    height: field.maxHeight || lines.length * size * lineHeight,
+  };
+  const topLeft = anchorToTopLeft(
+    field.anchor || DEFAULT_ANCHOR,
+    field,
+    box,
+    baselineOffset(size, lineHeight, metrics)
+  );
+
+  lines.forEach((line, index) => {
+    const lineWidth = font.widthOfTextAtSize(line.text, size);
+    const origin = lineOrigin(topLeft, box.width, lineWidth, index, align, size, lineHeight, metrics);
+    const words = line.text.split(" ");
+
+    // Justified lines spread their words over the full box width, except the
+    // last line of each paragraph
+    if (align === "justify" && !line.last && words.length > 1) {
+      const wordsWidth = words.reduce((sum, w) => sum + font.widthOfTextAtSize(w, size), 0);
+      const gap = (box.width - wordsWidth) / (words.length - 1);
+      let x = origin.x;
+      for (const word of words) {
+        drawText(page, word, { x, y: origin.y, size, font, color }, geometry);
+        x += font.widthOfTextAtSize(word, size) + gap;
+      }
+      if (underline) drawUnderline(page, box.width, { ...origin, size, font, color }, geometry);
+      return;
+    }
+
+    drawText(page, line.text, { ...origin, size, font, color }, geometry);
+    if (underline) drawUnderline(page, lineWidth, { ...origin, size, font, color }, geometry);
+  });
+
+  return fits;
+}
@@ -0,0 +1,128 @@
+import { PDFDocument, PDFHexString, PDFName, PDFRef } from "pdf-lib";
+import { fillTemplate } from "@/lib/certificate";
+import type { ImpositionSettings } from "@/lib/imposition";
+
+// How generated certificates are named and packaged
+export interface OutputSettings {
+  // A zip of one PDF per row, or every certificate in one PDF
+  mode?: "zip" | "merged";
+  // Column placeholders plus {#} for the row number, e.g. "{ID}_{Last Name}".
+  // Merged output uses it for the bookmark titles.
+  fileNamePattern: string;
+  // Column whose value names a subfolder in the zip
+  folderColumn?: string;
+  // Merged output only
+  separatorPages?: boolean;
+  bookmarks?: boolean;
+  // Several certificates per printed sheet, see lib/imposition
+  imposition?: ImpositionSettings;
+}
+
+export const ROW_NUMBER_PLACEHOLDER = "#";
+
+export const defaultOutputSettings: OutputSettings = {
+  mode: "zip",
+  fileNamePattern: `certificate_{${ROW_NUMBER_PLACEHOLDER}}`,
+};
+
+// The name pattern filled in for one row, before any file name clean-up
+export function getRowLabel(settings: OutputSettings, rowData: Record<string, any>, rowIndex: number) {
+  const values = { ...rowData, [ROW_NUMBER_PLACEHOLDER]: rowIndex + 1 };
+  return fillTemplate(settings.fileNamePattern, values).replace(/\.pdf$/i, "");
+}
+
+const MAX_NAME_LENGTH = 120;
+
+// Names Windows refuses regardless of extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+
+// Make a value safe as a file or folder name on every platform: characters
+// that are illegal or separate paths become "_", and trailing dots and
+// spaces (dropped by Windows) are removed
+export function sanitizeFileName(name: string) {
+  let safe = name
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, "_")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_NAME_LENGTH)
+    .replace(/[. ]+$/, "");
+  if (RESERVED_NAMES.test(safe)) safe = `_${safe}`;
+  return safe;
+}
+
+// Assigns each row's path inside the zip, adding "_2", "_3"... to names that
+// are already taken. Names are compared ignoring case, since most file
+// systems do.
+export function createFileNamer(settings: OutputSettings) {
+  const taken = new Set<string>();
+
+  return (rowData: Record<string, any>, rowIndex: number) => {
+    const base = sanitizeFileName(getRowLabel(settings, rowData, rowIndex)) || `certificate_${rowIndex + 1}`;
+
+    const folderValue = settings.folderColumn ? rowData[settings.folderColumn] : undefined;
+    const folder = folderValue !== undefined && folderValue !== null
+      ? sanitizeFileName(String(folderValue))
+      : "";
+    const prefix = folder ? `${folder}/` : "";
+
+    let path = `${prefix}${base}.pdf`;
+    for (let n = 2; taken.has(path.toLowerCase()); n++) {
+      path = `${prefix}${base}_${n}.pdf`;
+    }
+    taken.add(path.toLowerCase());
+    return path;
+  };
+}
+
+// Copy every page of a generated certificate to the end of the merged
+// document, optionally after a blank page the size of the previous one.
+// Returns the index of the certificate's first page.
+export async function appendCertificate(merged: PDFDocument, certificate: PDFDocument, separator: boolean) {
+  const previous = merged.getPageCount();
+  if (separator && previous > 0) {
+    const { width, height } = merged.getPage(previous - 1).getSize();
+    merged.addPage([width, height]);
+  }
+
+  const start = merged.getPageCount();
+  const pages = await merged.copyPages(certificate, certificate.getPageIndices());
+  pages.forEach(page => merged.addPage(page));
+  return start;
+}
+
+export interface OutlineEntry {
+  title: string;
+  pageIndex: number;
+}
+
+// pdf-lib has no outline API, so build the flat bookmark list from raw
+// objects: an Outlines dictionary whose items are chained by Prev/Next and
+// each jump to their page
+export function addOutline(pdfDoc: PDFDocument, entries: OutlineEntry[]) {
+  if (!entries.length) return;
+
+  const context = pdfDoc.context;
+  const outlineRef = context.nextRef();
+  const itemRefs: PDFRef[] = entries.map(() => context.nextRef());
+
+  entries.forEach((entry, index) => {
+    const item = context.obj({
+      Title: PDFHexString.fromText(entry.title),
+      Parent: outlineRef,
+      Dest: [pdfDoc.getPage(entry.pageIndex).ref, "Fit"],
+    });
+    if (index > 0) item.set(PDFName.of("Prev"), itemRefs[index - 1]);
+    if (index < entries.length - 1) item.set(PDFName.of("Next"), itemRefs[index + 1]);
+    context.assign(itemRefs[index], item);
+  });
+
+  context.assign(outlineRef, context.obj({
+    Type: "Outlines",
+    First: itemRefs[0],
+    Last: itemRefs[itemRefs.length - 1],
+    Count: entries.length,
+  }));
+  pdfDoc.catalog.set(PDFName.of("Outlines"), outlineRef);
+  // Open the bookmarks panel along with the document
+  pdfDoc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
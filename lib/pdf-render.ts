@@ -0,0 +1,43 @@
+import * as pdfjsLib from "pdfjs-dist";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
+  "pdfjs-dist/build/pdf.worker.min.js",
+  import.meta.url
+).toString();
+
+export type { PDFDocumentProxy };
+
+export function loadPdfDocument(data: ArrayBuffer | Uint8Array): Promise<PDFDocumentProxy> {
+  // pdf.js transfers the buffer to its worker, so hand it a copy
+  return pdfjsLib.getDocument({ data: new Uint8Array(data).slice() }).promise;
+}
+
+// Rasterize one page into the canvas. The canvas is laid out at one CSS pixel
+// per PDF point, while its backing store is rendered at `resolution` pixels
+// per point so it stays sharp when zoomed or on high-DPI screens.
+export async function renderPage(
+  pdfDoc: PDFDocumentProxy,
+  pageIndex: number,
+  canvas: HTMLCanvasElement,
+  resolution: number,
+  onTask?: (task: RenderTask) => void
+) {
+  const page = await pdfDoc.getPage(pageIndex + 1);
+  const size = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: resolution });
+
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  canvas.style.width = `${size.width}px`;
+  canvas.style.height = `${size.height}px`;
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas 2D context is not available");
+
+  const task = page.render({ canvasContext: context, viewport });
+  onTask?.(task);
+  await task.promise;
+
+  return { width: size.width, height: size.height };
+}
@@ -0,0 +1,197 @@
+import JSZip from "jszip";
+import { z } from "zod";
+import { CertificateField } from "@/lib/fields";
+import { CustomFont, loadCustomFont } from "@/lib/fonts";
+import { OutputSettings, defaultOutputSettings } from "@/lib/output";
+
+// Project files are zips holding the template, any uploaded fonts and a JSON
+// manifest describing the layout. Bump the version whenever the manifest
+// shape changes incompatibly.
+export const PROJECT_VERSION = 1;
+
+const MANIFEST_PATH = "manifest.json";
+const TEMPLATE_PATH = "template.pdf";
+const DATA_PATH = "data.json";
+
+const textStylesSchema = z.object({
+  fontFamily: z.string(),
+  fontSize: z.number(),
+  fontWeight: z.string(),
+  fontStyle: z.string(),
+  textDecoration: z.string(),
+  textAlign: z.string(),
+  color: z.string(),
+});
+
+const fieldFormatSchema = z.object({
+  type: z.enum(["text", "date", "number", "currency", "percent", "ordinal"]).optional(),
+  datePattern: z.string().optional(),
+  locale: z.string().optional(),
+  decimals: z.number().int().min(0).max(20).optional(),
+  currency: z.string().optional(),
+  textCase: z.enum(["upper", "lower", "title"]).optional(),
+  trim: z.boolean().optional(),
+  fallback: z.string().optional(),
+});
+
+const ruleConditionSchema = z.object({
+  column: z.string(),
+  operator: z.enum([
+    "equals",
+    "not-equals",
+    "contains",
+    "not-contains",
+    "greater",
+    "greater-or-equal",
+    "less",
+    "less-or-equal",
+    "empty",
+    "not-empty",
+  ]),
+  value: z.string().optional(),
+});
+
+const styleRuleSchema = z.object({
+  condition: ruleConditionSchema,
+  styles: textStylesSchema.partial(),
+});
+
+const fieldSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  template: z.string().optional(),
+  kind: z.literal("text").optional(),
+  x: z.number(),
+  y: z.number(),
+  anchor: z.enum(["top-left", "baseline", "center"]).optional(),
+  page: z.number().int().min(0).optional(),
+  styles: textStylesSchema.optional(),
+  maxWidth: z.number().positive().optional(),
+  maxHeight: z.number().positive().optional(),
+  minFontSize: z.number().positive().optional(),
+  mode: z.enum(["single", "paragraph"]).optional(),
+  lineHeight: z.number().positive().optional(),
+  wrap: z.enum(["word", "anywhere"]).optional(),
+  format: fieldFormatSchema.optional(),
+  visibleWhen: z.array(ruleConditionSchema).optional(),
+  styleRules: z.array(styleRuleSchema).optional(),
+  required: z.boolean().optional(),
+  unique: z.boolean().optional(),
+});
+
+const manifestSchema = z.object({
+  version: z.literal(PROJECT_VERSION),
+  template: z.object({
+    fileName: z.string(),
+  }),
+  fields: z.array(fieldSchema),
+  availableFields: z.array(z.string()),
+  selectedFields: z.array(z.string()),
+  fonts: z.array(z.object({
+    fileName: z.string(),
+    path: z.string(),
+  })),
+  data: z.object({
+    sourceName: z.string().nullable(),
+  }).optional(),
+  output: z.object({
+    mode: z.enum(["zip", "merged"]).optional(),
+    fileNamePattern: z.string(),
+    folderColumn: z.string().optional(),
+    separatorPages: z.boolean().optional(),
+    bookmarks: z.boolean().optional(),
+    imposition: z.object({
+      perSheet: z.number().int().positive(),
+      sheetSize: z.enum(["A4", "Letter"]),
+      cropMarks: z.boolean(),
+      bleed: z.number().min(0),
+    }).optional(),
+  }).optional(),
+});
+
+export interface CertificateProject {
+  template: File;
+  fields: CertificateField[];
+  availableFields: string[];
+  selectedFields: string[];
+  customFonts: CustomFont[];
+  output: OutputSettings;
+  // Only present when the project was saved with its data
+  data?: {
+    sourceName: string | null;
+    rows: any[];
+  };
+}
+
+export async function saveProject(project: CertificateProject): Promise<Blob> {
+  const zip = new JSZip();
+
+  zip.file(TEMPLATE_PATH, await project.template.arrayBuffer());
+
+  const fonts = project.customFonts.map((font, index) => {
+    const path = `fonts/${index}-${font.fileName}`;
+    zip.file(path, font.bytes);
+    return { fileName: font.fileName, path };
+  });
+
+  if (project.data) {
+    zip.file(DATA_PATH, JSON.stringify(project.data.rows));
+  }
+
+  const manifest: z.infer<typeof manifestSchema> = {
+    version: PROJECT_VERSION,
+    template: { fileName: project.template.name },
+    fields: project.fields,
+    availableFields: project.availableFields,
+    selectedFields: project.selectedFields,
+    fonts,
+    data: project.data ? { sourceName: project.data.sourceName } : undefined,
+    output: project.output,
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: "blob" });
+}
+
+const readEntry = (zip: JSZip, path: string) => {
+  const entry = zip.file(path);
+  if (!entry) throw new Error(`Project file is missing ${path}`);
+  return entry;
+};
+
+export async function openProject(file: File): Promise<CertificateProject> {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+
+  const manifestJson = JSON.parse(await readEntry(zip, MANIFEST_PATH).async("string"));
+  const result = manifestSchema.safeParse(manifestJson);
+  if (!result.success) {
+    throw new Error(`Invalid project manifest: ${result.error.issues[0]?.message}`);
+  }
+  const manifest = result.data;
+
+  const templateBytes = await readEntry(zip, TEMPLATE_PATH).async("arraybuffer");
+  const template = new File([templateBytes], manifest.template.fileName, { type: "application/pdf" });
+
+  // Re-register fonts with the browser just like a fresh upload
+  const customFonts = await Promise.all(manifest.fonts.map(async (font) => {
+    const bytes = await readEntry(zip, font.path).async("arraybuffer");
+    return loadCustomFont(new File([bytes], font.fileName));
+  }));
+
+  let data: CertificateProject["data"];
+  if (manifest.data) {
+    const rows = JSON.parse(await readEntry(zip, DATA_PATH).async("string"));
+    if (!Array.isArray(rows)) throw new Error("Project data must be an array of rows");
+    data = { sourceName: manifest.data.sourceName, rows };
+  }
+
+  return {
+    template,
+    fields: manifest.fields,
+    availableFields: manifest.availableFields,
+    selectedFields: manifest.selectedFields,
+    customFonts,
+    output: manifest.output || defaultOutputSettings,
+    data,
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { CertificateField } from "@/lib/fields";
+import { RuleCondition, evaluateCondition, isFieldVisible } from "@/lib/rules";
+
+const distinction: RuleCondition = { column: "Grade", operator: "greater-or-equal", value: "90" };
+
+describe("evaluateCondition", () => {
+  it("compares decimal-comma grades as numbers", () => {
+    expect(evaluateCondition(distinction, { Grade: "89,5" }, "de-DE")).toBe(false);
+    expect(evaluateCondition(distinction, { Grade: "90,5" }, "de-DE")).toBe(true);
+    expect(evaluateCondition(distinction, { Grade: "100,0" }, "de-DE")).toBe(true);
+  });
+
+  it("accepts either number style without a locale", () => {
+    expect(evaluateCondition(distinction, { Grade: "89,5" })).toBe(false);
+    expect(evaluateCondition(distinction, { Grade: "100,5" })).toBe(true);
+    expect(evaluateCondition(distinction, { Grade: "92.5" })).toBe(true);
+  });
+
+  it("compares text ignoring case", () => {
+    expect(evaluateCondition({ column: "Track", operator: "equals", value: "honors" }, { Track: "Honors" })).toBe(true);
+  });
+});
+
+describe("isFieldVisible", () => {
+  it("reads numbers in the field's locale", () => {
+    const field: CertificateField = {
+      id: "field-text-1",
+      name: "with Distinction",
+      x: 0,
+      y: 0,
+      format: { locale: "de-DE" },
+      visibleWhen: [distinction],
+    };
+    expect(isFieldVisible(field, { Grade: "89,5" })).toBe(false);
+    expect(isFieldVisible(field, { Grade: "1.000" })).toBe(true);
+  });
+});
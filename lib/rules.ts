@@ -0,0 +1,105 @@
+import type { TextStyles } from "@/components/TextStyler";
+import type { CertificateField } from "@/lib/fields";
+import { toNumber } from "@/lib/formatters";
+
+export type RuleOperator =
+  | "equals"
+  | "not-equals"
+  | "contains"
+  | "not-contains"
+  | "greater"
+  | "greater-or-equal"
+  | "less"
+  | "less-or-equal"
+  | "empty"
+  | "not-empty";
+
+// A test against one column of a row, e.g. Grade ≥ 90
+export interface RuleCondition {
+  column: string;
+  operator: RuleOperator;
+  value?: string;
+}
+
+// Style overrides applied to a field on rows matching the condition
+export interface StyleRule {
+  condition: RuleCondition;
+  styles: Partial<TextStyles>;
+}
+
+export const RULE_OPERATORS: { value: RuleOperator; label: string; needsValue: boolean }[] = [
+  { value: "equals", label: "=", needsValue: true },
+  { value: "not-equals", label: "≠", needsValue: true },
+  { value: "contains", label: "contains", needsValue: true },
+  { value: "not-contains", label: "doesn't contain", needsValue: true },
+  { value: "greater", label: ">", needsValue: true },
+  { value: "greater-or-equal", label: "≥", needsValue: true },
+  { value: "less", label: "<", needsValue: true },
+  { value: "less-or-equal", label: "≤", needsValue: true },
+  { value: "empty", label: "is empty", needsValue: false },
+  { value: "not-empty", label: "is not empty", needsValue: false },
+];
+
+// Compare numerically when both sides are numbers in the locale (or in
+// either number style when none is given), otherwise as text ignoring case
+const compare = (left: string, right: string, locale?: string) => {
+  const a = toNumber(left, locale);
+  const b = toNumber(right, locale);
+  if (a !== null && b !== null) return a - b;
+  return left.localeCompare(right, undefined, { sensitivity: "base" });
+};
+
+export function evaluateCondition(condition: RuleCondition, rowData: Record<string, any>, locale?: string) {
+  const cell = rowData[condition.column];
+  const text = cell === undefined || cell === null ? "" : String(cell).trim();
+  const target = (condition.value ?? "").trim();
+
+  switch (condition.operator) {
+    case "equals":
+      return compare(text, target, locale) === 0;
+    case "not-equals":
+      return compare(text, target, locale) !== 0;
+    case "contains":
+      return text.toLowerCase().includes(target.toLowerCase());
+    case "not-contains":
+      return !text.toLowerCase().includes(target.toLowerCase());
+    case "greater":
+      return text !== "" && compare(text, target, locale) > 0;
+    case "greater-or-equal":
+      return text !== "" && compare(text, target, locale) >= 0;
+    case "less":
+      return text !== "" && compare(text, target, locale) < 0;
+    case "less-or-equal":
+      return text !== "" && compare(text, target, locale) <= 0;
+    case "empty":
+      return text === "";
+    case "not-empty":
+      return text !== "";
+  }
+}
+
+// A field is drawn only on rows matching all of its visibility conditions
+export function isFieldVisible(field: CertificateField, rowData: Record<string, any>) {
+  const locale = field.format?.locale;
+  return (field.visibleWhen || []).every(condition => evaluateCondition(condition, rowData, locale));
+}
+
+// The field's styles for one row, with every matching rule applied in order.
+// Properties left unset fall back to their defaults wherever styles are read.
+export function getRowStyles(field: CertificateField, rowData: Record<string, any>) {
+  const locale = field.format?.locale;
+  const matches = (field.styleRules || []).filter(rule => evaluateCondition(rule.condition, rowData, locale));
+  if (!matches.length) return field.styles;
+
+  return matches.reduce(
+    (styles, rule) => ({ ...styles, ...rule.styles }),
+    { ...field.styles } as TextStyles
+  );
+}
+
+// The field as it should be drawn for one row, or null when it is hidden
+export function resolveField(field: CertificateField, rowData: Record<string, any>) {
+  if (!isFieldVisible(field, rowData)) return null;
+  const styles = getRowStyles(field, rowData);
+  return styles === field.styles ? field : { ...field, styles };
+}
@@ -0,0 +1,55 @@
+import { RuleCondition, evaluateCondition } from "@/lib/rules";
+
+// Which rows get generated is tracked as the set of excluded row indices, so
+// every row is included by default and rows added later are too.
+
+// Parse 1-based row numbers and ranges such as "12-40, 45" into row indices
+export function parseRowRanges(text: string, rowCount: number) {
+  const indices = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const token = part.trim();
+    if (!token) continue;
+
+    // Accept en dashes as pasted from documents, e.g. "12–40"
+    const match = token.match(/^(\d+)(?:\s*[-–]\s*(\d+))?$/);
+    if (!match) throw new Error(`"${token}" is not a row number or range`);
+
+    const start = parseInt(match[1]);
+    const end = match[2] ? parseInt(match[2]) : start;
+    if (start < 1 || end < start) throw new Error(`"${token}" is not a valid range`);
+    if (start > rowCount) throw new Error(`Row ${start} is past the last row (${rowCount})`);
+
+    for (let row = start; row <= Math.min(end, rowCount); row++) indices.add(row - 1);
+  }
+
+  return indices;
+}
+
+// Indices of rows matching all conditions
+export function matchRows(rows: Record<string, any>[], conditions: RuleCondition[]) {
+  const indices = new Set<number>();
+  rows.forEach((row, index) => {
+    if (conditions.every(condition => evaluateCondition(condition, row))) indices.add(index);
+  });
+  return indices;
+}
+
+// Exclude every row not in the given set
+export function excludeAllBut(rowCount: number, included: Set<number>) {
+  const excluded = new Set<number>();
+  for (let index = 0; index < rowCount; index++) {
+    if (!included.has(index)) excluded.add(index);
+  }
+  return excluded;
+}
+
+// Shift exclusions down after a row is deleted so they stay on the same rows
+export function removeRowIndex(excluded: Set<number>, removed: number) {
+  const shifted = new Set<number>();
+  excluded.forEach(index => {
+    if (index < removed) shifted.add(index);
+    else if (index > removed) shifted.add(index - 1);
+  });
+  return shifted;
+}
@@ -0,0 +1,55 @@
+// Autosaved working session, kept in IndexedDB so an accidental tab close
+// doesn't lose the layout. The session is stored as a project file (see
+// lib/project) so restoring it goes through the same validation.
+
+const DB_NAME = "certificate-editor";
+const STORE_NAME = "session";
+const SESSION_KEY = "current";
+
+export interface SavedSession {
+  project: Blob;
+  savedAt: number;
+}
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run a single request against the session store and close the connection
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export async function saveSession(project: Blob) {
+  const session: SavedSession = { project, savedAt: Date.now() };
+  await withStore("readwrite", store => store.put(session, SESSION_KEY));
+}
+
+export async function loadSession(): Promise<SavedSession | null> {
+  const session = await withStore<SavedSession | undefined>("readonly", store => store.get(SESSION_KEY));
+  return session || null;
+}
+
+export async function clearSession() {
+  await withStore("readwrite", store => store.delete(SESSION_KEY));
+}
@@ -0,0 +1,95 @@
+import { PDFDocument, PDFFont } from "pdf-lib";
+import { CertificateField } from "@/lib/fields";
+import { CustomFont, createFontResolver } from "@/lib/fonts";
+import { getFieldValue } from "@/lib/certificate";
+import { layoutField } from "@/lib/layout";
+import { resolveField } from "@/lib/rules";
+
+export type ValidationIssueKind = "blank" | "duplicate" | "overflow" | "unencodable";
+
+export interface ValidationIssue {
+  // Index into the data rows
+  row: number;
+  field: string;
+  kind: ValidationIssueKind;
+  message: string;
+}
+
+// Characters the font has no glyph for. Whitespace is skipped since line
+// breaks are handled by the layout rather than drawn.
+const getMissingCharacters = (charset: Set<number>, text: string) =>
+  Array.from(new Set(Array.from(text))).filter(
+    char => !/\s/.test(char) && !charset.has(char.codePointAt(0)!)
+  );
+
+// Check the given rows before generation: required fields left blank,
+// duplicate values in unique fields, values that overflow their box even at
+// the minimum font size, and characters the field's font can't encode.
+// Fields hidden by their rules on a row are not checked on that row.
+export async function validateRows(
+  templateBytes: ArrayBuffer,
+  fields: CertificateField[],
+  rows: Record<string, any>[],
+  rowIndices: number[],
+  customFonts: CustomFont[]
+) {
+  // Fonts are embedded into a scratch copy of the template just to measure
+  const pdfDoc = await PDFDocument.load(templateBytes);
+  const getFont = createFontResolver(pdfDoc, customFonts);
+  const charsets = new Map<PDFFont, Set<number>>();
+
+  const issues: ValidationIssue[] = [];
+  const seen = new Map<string, Map<string, number>>();
+
+  for (const row of rowIndices) {
+    for (const templateField of fields) {
+      const field = resolveField(templateField, rows[row]);
+      if (!field) continue;
+
+      const value = getFieldValue(field, rows[row]);
+
+      if (!value) {
+        if (field.required) {
+          issues.push({ row, field: field.name, kind: "blank", message: "Required value is blank" });
+        }
+        continue;
+      }
+
+      if (field.unique) {
+        const values = seen.get(field.id) || new Map<string, number>();
+        seen.set(field.id, values);
+        const first = values.get(value);
+        if (first !== undefined) {
+          issues.push({ row, field: field.name, kind: "duplicate", message: `Same value as row ${first + 1}` });
+        } else {
+          values.set(value, row);
+        }
+      }
+
+      const font = await getFont(field.styles);
+      let charset = charsets.get(font);
+      if (!charset) {
+        charset = new Set(font.getCharacterSet());
+        charsets.set(font, charset);
+      }
+
+      // Measuring text with missing characters throws, so stop here
+      const missing = getMissingCharacters(charset, value);
+      if (missing.length) {
+        issues.push({
+          row,
+          field: field.name,
+          kind: "unencodable",
+          message: `Font can't show ${missing.map(char => `"${char}"`).join(", ")}`
+        });
+        continue;
+      }
+
+      if (!layoutField(field, value, font).fits) {
+        issues.push({ row, field: field.name, kind: "overflow", message: "Too wide for its box" });
+      }
+    }
+  }
+
+  return issues;
+}